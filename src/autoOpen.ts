@@ -0,0 +1,107 @@
+import {
+  ExtensionContext,
+  RelativePattern,
+  TabInputText,
+  TextEditor,
+  Uri,
+  commands,
+  languages,
+  window,
+  workspace,
+} from 'vscode';
+import { getSettings } from './config';
+import { SCHEME } from './constants';
+import { toNotebookUri } from './filesystem';
+import { startsWithDatabricksHeader } from './parser';
+
+/**
+ * Files the user explicitly asked to see as text, which must not be redirected
+ */
+const suppressed = new Set<string>();
+
+/**
+ * Files currently being redirected, to ignore the editor changes that causes
+ */
+const redirecting = new Set<string>();
+
+/**
+ * Keep a file open as text even if it would normally be redirected to the notebook view
+ */
+export function suppressAutoOpen(uri: Uri): void {
+  suppressed.add(uri.toString());
+}
+
+/**
+ * Redirect Databricks notebooks opened as text to the notebook editor
+ * (opt-in via `databricksNotebook.autoOpen` and `databricksNotebook.autoOpenGlobs`)
+ */
+export function registerAutoOpen(context: ExtensionContext): void {
+  context.subscriptions.push(
+    window.onDidChangeActiveTextEditor(editor => void redirectToNotebook(editor)),
+    workspace.onDidCloseTextDocument(document => suppressed.delete(document.uri.toString()))
+  );
+
+  // Handle the file that triggered activation
+  void redirectToNotebook(window.activeTextEditor);
+}
+
+/**
+ * Reopen the editor's file as a notebook if the settings ask for it
+ */
+async function redirectToNotebook(editor: TextEditor | undefined): Promise<void> {
+  if (!editor || !shouldOpenAsNotebook(editor)) {
+    return;
+  }
+
+  const uri = editor.document.uri;
+  const key = uri.toString();
+
+  // Only plain text tabs - leave diff editors, peeks etc. alone
+  const tab = window.tabGroups.activeTabGroup.activeTab;
+  if (!(tab?.input instanceof TabInputText) || tab.input.uri.toString() !== key) {
+    return;
+  }
+
+  redirecting.add(key);
+  try {
+    await commands.executeCommand('databricks.openAsNotebook', uri);
+
+    // The command reports its own errors, so keep the text tab unless the
+    // notebook really opened in its place
+    if (window.activeNotebookEditor?.notebook.uri.toString() === toNotebookUri(uri).toString()) {
+      await window.tabGroups.close(tab);
+    }
+  } finally {
+    redirecting.delete(key);
+  }
+}
+
+/**
+ * Whether a text editor shows a file that should open as a notebook instead
+ */
+function shouldOpenAsNotebook(editor: TextEditor): boolean {
+  const { document } = editor;
+  const key = document.uri.toString();
+
+  // Any scheme backed by a filesystem (local, remote, virtual), but not our own
+  // notebook URIs or read-only views such as git diffs
+  if (
+    document.uri.scheme === SCHEME ||
+    workspace.fs.isWritableFileSystem(document.uri.scheme) === undefined ||
+    document.languageId !== 'python' ||
+    suppressed.has(key) ||
+    redirecting.has(key)
+  ) {
+    return false;
+  }
+
+  const { autoOpen, autoOpenGlobs } = getSettings();
+
+  if (autoOpen && document.lineCount > 0 && startsWithDatabricksHeader(document.lineAt(0).text)) {
+    return true;
+  }
+
+  return (workspace.workspaceFolders ?? []).some(folder =>
+    autoOpenGlobs.some(glob => languages.match({ pattern: new RelativePattern(folder, glob) }, document) > 0)
+  );
+}
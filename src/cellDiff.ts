@@ -0,0 +1,108 @@
+/**
+ * Cell-level comparison of two versions of a notebook, used to describe
+ * what changed on disk when a save would overwrite someone else's edits.
+ */
+
+import { getCellKeys } from './outputStore';
+import { ParsedCell } from './types';
+
+/**
+ * Counts of cell changes between two versions of a notebook
+ */
+export interface CellDiffSummary {
+  /** Cells only in the newer version */
+  added: number;
+  /** Cells only in the older version */
+  removed: number;
+  /** Cells edited in place */
+  changed: number;
+  /** Cells identical in both versions */
+  unchanged: number;
+}
+
+/**
+ * Compare two cell lists.
+ *
+ * Identical cells are matched in order (longest common subsequence); between
+ * two matches, removed and added cells are paired up as edits.
+ */
+export function diffCells(
+  before: Pick<ParsedCell, 'source' | 'languageId'>[],
+  after: Pick<ParsedCell, 'source' | 'languageId'>[]
+): CellDiffSummary {
+  const a = getCellKeys(before);
+  const b = getCellKeys(after);
+
+  // lcs(i, j) = length of the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  const lcs = (i: number, j: number): number => lengths[i]?.[j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lengths[i] ?? [];
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] = a[i] === b[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const summary: CellDiffSummary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  let removedRun = 0;
+  let addedRun = 0;
+
+  const flushRun = (): void => {
+    const changed = Math.min(removedRun, addedRun);
+    summary.changed += changed;
+    summary.removed += removedRun - changed;
+    summary.added += addedRun - changed;
+    removedRun = 0;
+    addedRun = 0;
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushRun();
+      summary.unchanged++;
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs(i + 1, j) >= lcs(i, j + 1))) {
+      removedRun++;
+      i++;
+    } else {
+      addedRun++;
+      j++;
+    }
+  }
+  flushRun();
+
+  return summary;
+}
+
+/**
+ * Whether the two versions differ at all
+ */
+export function hasCellChanges(summary: CellDiffSummary): boolean {
+  return summary.added > 0 || summary.removed > 0 || summary.changed > 0;
+}
+
+/**
+ * Human-readable description of a diff (e.g. "2 cells changed, 1 added")
+ */
+export function describeCellDiff(summary: CellDiffSummary): string {
+  if (!hasCellChanges(summary)) {
+    return 'no cell changes';
+  }
+
+  const parts: string[] = [];
+  if (summary.changed > 0) {
+    parts.push(`${summary.changed} changed`);
+  }
+  if (summary.added > 0) {
+    parts.push(`${summary.added} added`);
+  }
+  if (summary.removed > 0) {
+    parts.push(`${summary.removed} removed`);
+  }
+
+  const total = summary.changed + summary.added + summary.removed;
+  return `${total === 1 ? '1 cell' : `${total} cells`}: ${parts.join(', ')}`;
+}
@@ -0,0 +1,139 @@
+import {
+  ExtensionContext,
+  NotebookCell,
+  NotebookCellKind,
+  NotebookEditor,
+  Position,
+  Range,
+  WorkspaceEdit,
+  commands,
+  window,
+  workspace,
+} from 'vscode';
+import { isDatabricksNotebook } from './cellMetadata';
+import { getCellMagic, isCodeLanguage } from './ipynbConverter';
+
+/**
+ * Cells whose magic line was added for an execution, with the magic to
+ * remove again once the execution finishes
+ */
+const executingMagics = new Map<NotebookCell, string>();
+
+/**
+ * Register run commands that supply the cell magic at execution time, for
+ * notebooks opened with `databricksNotebook.hideCellMagics`
+ */
+export function registerCellExecution(context: ExtensionContext): void {
+  context.subscriptions.push(
+    commands.registerCommand('databricks.executeCell', (cell?: unknown) =>
+      runWithMagics('notebook.cell.execute', cell)
+    ),
+    commands.registerCommand('databricks.executeCellAndSelectBelow', (cell?: unknown) =>
+      runWithMagics('notebook.cell.executeAndSelectBelow', cell)
+    ),
+    commands.registerCommand('databricks.executeAll', () => runWithMagics('notebook.execute')),
+    workspace.onDidChangeNotebookDocument(event => {
+      for (const change of event.cellChanges) {
+        if (change.executionSummary?.success !== undefined) {
+          void removeMagic(change.cell);
+        }
+      }
+    })
+  );
+}
+
+/**
+ * Add the magic line to the cells about to run, then run them with the
+ * built-in command. The line is removed when each cell finishes, and at the
+ * latest when the command returns (also when the run is cancelled or no
+ * kernel is picked).
+ *
+ * @param cell Cell whose run button was clicked (defaults to the selected cells)
+ */
+async function runWithMagics(command: string, cell?: unknown): Promise<void> {
+  const editor = window.activeNotebookEditor;
+  if (!editor || !isDatabricksNotebook(editor.notebook)) {
+    await commands.executeCommand(command);
+    return;
+  }
+
+  const cells = command === 'notebook.execute' ? editor.notebook.getCells() : targetCells(editor, cell);
+
+  // A cell whose magic is still in its source needs none; one left over
+  // from an earlier run that lost its line gets it again
+  const edit = new WorkspaceEdit();
+  const added: NotebookCell[] = [];
+  for (const target of cells) {
+    const magic = neededMagic(target);
+    if (magic) {
+      edit.insert(target.document.uri, new Position(0, 0), `${magic}\n`);
+      executingMagics.set(target, magic);
+      added.push(target);
+    }
+  }
+
+  try {
+    if (added.length > 0) {
+      await workspace.applyEdit(edit);
+    }
+    if (isNotebookCell(cell)) {
+      await commands.executeCommand(command, {
+        ranges: [{ start: cell.index, end: cell.index + 1 }],
+        document: editor.notebook.uri,
+      });
+    } else {
+      await commands.executeCommand(command);
+    }
+  } finally {
+    await Promise.all(added.map(removeMagic));
+  }
+}
+
+/**
+ * Cells a cell-level run command applies to
+ */
+function targetCells(editor: NotebookEditor, cell?: unknown): NotebookCell[] {
+  if (isNotebookCell(cell)) {
+    return [cell];
+  }
+  return editor.selections.flatMap(range => editor.notebook.getCells(range));
+}
+
+/**
+ * Magic line a code cell needs to run, unless its source already has one
+ */
+function neededMagic(cell: NotebookCell): string | undefined {
+  const { languageId } = cell.document;
+  if (cell.kind !== NotebookCellKind.Code || !isCodeLanguage(languageId)) {
+    return undefined;
+  }
+
+  const source = cell.document.getText();
+  const magic = getCellMagic(languageId, source);
+  return magic && !source.startsWith('%%') ? magic : undefined;
+}
+
+/**
+ * Remove the magic line added for an execution that has finished
+ */
+async function removeMagic(cell: NotebookCell): Promise<void> {
+  const magic = executingMagics.get(cell);
+  if (!magic) {
+    return;
+  }
+  executingMagics.delete(cell);
+
+  // Leave the line alone if it was edited in the meantime
+  const document = cell.document;
+  if (document.lineCount === 0 || document.lineAt(0).text !== magic) {
+    return;
+  }
+
+  const edit = new WorkspaceEdit();
+  edit.delete(document.uri, new Range(0, 0, 1, 0));
+  await workspace.applyEdit(edit);
+}
+
+function isNotebookCell(value: unknown): value is NotebookCell {
+  return typeof value === 'object' && value !== null && 'notebook' in value && 'document' in value;
+}
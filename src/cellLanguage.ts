@@ -0,0 +1,182 @@
+import {
+  ExtensionContext,
+  NotebookCell,
+  NotebookCellData,
+  NotebookCellKind,
+  NotebookCellStatusBarAlignment,
+  NotebookCellStatusBarItem,
+  NotebookCellStatusBarItemProvider,
+  NotebookEdit,
+  NotebookRange,
+  Range,
+  TextDocument,
+  WorkspaceEdit,
+  commands,
+  languages,
+  notebooks,
+  window,
+  workspace,
+} from 'vscode';
+import { NOTEBOOK_TYPE } from './constants';
+import { isDatabricksNotebook } from './cellMetadata';
+import { getSettings } from './config';
+import { CODE_CELL_LANGUAGES, isCodeLanguage, withCellMagic, withoutCellMagic } from './ipynbConverter';
+import { MAGIC_LANGUAGE } from './magicLanguage';
+import { CellLanguage } from './types';
+
+/**
+ * Display names of the languages a cell can be switched to, and of the
+ * language given to magic cells
+ */
+const LANGUAGE_LABELS: Partial<Record<string, string>> = {
+  python: 'Python',
+  sql: 'SQL',
+  shellscript: 'Shell',
+  r: 'R',
+  scala: 'Scala',
+  markdown: 'Markdown',
+  [MAGIC_LANGUAGE]: 'Magic',
+};
+
+/**
+ * Last seen language of each open cell document, by cell URI, so only real
+ * language changes rewrite the magic line
+ */
+const cellLanguages = new Map<string, string>();
+
+/**
+ * Shows the cell's Databricks language in the cell status bar, opening the picker on click
+ */
+class CellLanguageStatusBarProvider implements NotebookCellStatusBarItemProvider {
+  provideCellStatusBarItems(cell: NotebookCell): NotebookCellStatusBarItem[] {
+    const label = LANGUAGE_LABELS[cell.document.languageId];
+    if (!isDatabricksNotebook(cell.notebook) || !label) {
+      return [];
+    }
+
+    const item = new NotebookCellStatusBarItem(`$(symbol-namespace) ${label}`, NotebookCellStatusBarAlignment.Right);
+    item.tooltip = 'Databricks cell language (click to change)';
+    item.command = {
+      title: 'Change Cell Language',
+      command: 'databricks.changeCellLanguage',
+      arguments: [cell],
+    };
+    return [item];
+  }
+}
+
+/**
+ * Register the cell language picker and keep cell magics in line with cell languages
+ */
+export function registerCellLanguage(context: ExtensionContext): void {
+  context.subscriptions.push(
+    notebooks.registerNotebookCellStatusBarItemProvider(NOTEBOOK_TYPE, new CellLanguageStatusBarProvider()),
+    commands.registerCommand('databricks.changeCellLanguage', changeCellLanguage),
+    // VS Code reopens a cell's document when its language changes
+    workspace.onDidOpenTextDocument(document => void syncCellMagic(document)),
+    workspace.onDidCloseNotebookDocument(notebook => {
+      for (const cell of notebook.getCells()) {
+        cellLanguages.delete(cell.document.uri.toString());
+      }
+    })
+  );
+}
+
+/**
+ * Pick a Databricks language for a cell
+ */
+async function changeCellLanguage(cell?: NotebookCell): Promise<void> {
+  const editor = window.activeNotebookEditor;
+  cell = cell ?? editor?.notebook.cellAt(editor.selection.start);
+
+  if (!cell || !isDatabricksNotebook(cell.notebook)) {
+    return;
+  }
+
+  const current = cell.document.languageId;
+  const picked = await window.showQuickPick(
+    [...CODE_CELL_LANGUAGES, 'markdown' as const].map(language => ({
+      label: LANGUAGE_LABELS[language] ?? language,
+      description: language === current ? 'current' : undefined,
+      language,
+    })),
+    { placeHolder: 'Cell language' }
+  );
+
+  if (!picked || picked.language === current) {
+    return;
+  }
+
+  if (picked.language === 'markdown' || cell.kind === NotebookCellKind.Markup) {
+    await replaceCell(cell, picked.language);
+    return;
+  }
+
+  // Changing the language reopens the document, and syncCellMagic then updates the magic line
+  try {
+    await languages.setTextDocumentLanguage(cell.document, picked.language);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    void window.showErrorMessage(`Failed to change cell language to ${picked.label}: ${message}`);
+  }
+}
+
+/**
+ * Replace a cell with one of the other kind (markdown ↔ code), keeping its
+ * source and metadata
+ */
+async function replaceCell(cell: NotebookCell, language: CellLanguage): Promise<void> {
+  const kind = language === 'markdown' ? NotebookCellKind.Markup : NotebookCellKind.Code;
+  const source = syncedSource(cell.document.getText(), kind === NotebookCellKind.Code ? language : 'markdown');
+
+  const data = new NotebookCellData(kind, source, language);
+  data.metadata = cell.metadata;
+
+  const edit = new WorkspaceEdit();
+  edit.set(cell.notebook.uri, [NotebookEdit.replaceCells(new NotebookRange(cell.index, cell.index + 1), [data])]);
+  await workspace.applyEdit(edit);
+}
+
+/**
+ * Cell source with the magic line its language needs, or without any magic
+ * line when magics are hidden (`databricksNotebook.hideCellMagics`)
+ */
+function syncedSource(source: string, language: CellLanguage): string {
+  return getSettings().hideCellMagics ? withoutCellMagic(source) : withCellMagic(source, language);
+}
+
+/**
+ * Make a code cell's magic line match its language after the language was
+ * changed, e.g. with VS Code's own language picker. Documents opened with
+ * their language unchanged (such as when a notebook opens) are left alone.
+ */
+async function syncCellMagic(document: TextDocument): Promise<void> {
+  if (document.uri.scheme !== 'vscode-notebook-cell') {
+    return;
+  }
+
+  const key = document.uri.toString();
+  const previous = cellLanguages.get(key);
+  cellLanguages.set(key, document.languageId);
+  if (previous === undefined || previous === document.languageId || !isCodeLanguage(document.languageId)) {
+    return;
+  }
+
+  const cell = workspace.notebookDocuments
+    .filter(isDatabricksNotebook)
+    .flatMap(notebook => notebook.getCells())
+    .find(candidate => candidate.document === document);
+  if (!cell || cell.kind !== NotebookCellKind.Code) {
+    return;
+  }
+
+  const source = document.getText();
+  const updated = syncedSource(source, document.languageId);
+  if (updated === source) {
+    return;
+  }
+
+  const edit = new WorkspaceEdit();
+  edit.replace(document.uri, new Range(document.positionAt(0), document.positionAt(source.length)), updated);
+  await workspace.applyEdit(edit);
+}
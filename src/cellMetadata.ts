@@ -0,0 +1,58 @@
+import { NotebookCell, NotebookDocument } from 'vscode';
+import { SCHEME } from './constants';
+
+/**
+ * Metadata of a cell as stored in the ipynb JSON
+ */
+export type IpynbCellMetadata = Record<string, unknown>;
+
+/**
+ * Shape of NotebookCell.metadata produced by VS Code's built-in ipynb serializer.
+ * Older VS Code versions nest the ipynb fields under `custom`.
+ */
+interface SerializerCellMetadata {
+  metadata?: IpynbCellMetadata;
+  custom?: {
+    metadata?: IpynbCellMetadata;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Whether a notebook was opened through our databricks-notebook:// filesystem
+ */
+export function isDatabricksNotebook(notebook: NotebookDocument): boolean {
+  return notebook.uri.scheme === SCHEME;
+}
+
+/**
+ * Read the ipynb metadata of a cell (where our databricks_* fields live)
+ */
+export function getIpynbCellMetadata(cell: NotebookCell): IpynbCellMetadata {
+  const metadata = cell.metadata as SerializerCellMetadata;
+  return metadata.custom?.metadata ?? metadata.metadata ?? {};
+}
+
+/**
+ * Build new NotebookCell.metadata with updated ipynb metadata fields.
+ * Fields set to undefined are removed.
+ */
+export function withIpynbCellMetadata(
+  cell: NotebookCell,
+  updates: IpynbCellMetadata
+): Record<string, unknown> {
+  const current = cell.metadata as SerializerCellMetadata;
+  const ipynbMetadata: IpynbCellMetadata = { ...getIpynbCellMetadata(cell), ...updates };
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) {
+      delete ipynbMetadata[key];
+    }
+  }
+
+  if (current.custom) {
+    return { ...current, custom: { ...current.custom, metadata: ipynbMetadata } };
+  }
+  return { ...current, metadata: ipynbMetadata };
+}
@@ -0,0 +1,84 @@
+import {
+  ExtensionContext,
+  NotebookCell,
+  NotebookCellStatusBarAlignment,
+  NotebookCellStatusBarItem,
+  NotebookCellStatusBarItemProvider,
+  NotebookEdit,
+  WorkspaceEdit,
+  commands,
+  notebooks,
+  window,
+  workspace,
+} from 'vscode';
+import { NOTEBOOK_TYPE } from './constants';
+import { getIpynbCellMetadata, isDatabricksNotebook, withIpynbCellMetadata } from './cellMetadata';
+
+/**
+ * Shows Databricks cell titles (`# DBTITLE`) in the cell status bar
+ */
+class CellTitleStatusBarProvider implements NotebookCellStatusBarItemProvider {
+  provideCellStatusBarItems(cell: NotebookCell): NotebookCellStatusBarItem[] {
+    if (!isDatabricksNotebook(cell.notebook)) {
+      return [];
+    }
+
+    const title = getIpynbCellMetadata(cell).databricks_title;
+    if (typeof title !== 'string') {
+      return [];
+    }
+
+    const item = new NotebookCellStatusBarItem(`$(tag) ${title}`, NotebookCellStatusBarAlignment.Left);
+    item.tooltip = 'Databricks cell title (click to edit)';
+    item.command = {
+      title: 'Edit Cell Title',
+      command: 'databricks.editCellTitle',
+      arguments: [cell],
+    };
+    return [item];
+  }
+}
+
+/**
+ * Register the cell title status bar item and its edit command
+ */
+export function registerCellStatusBar(context: ExtensionContext): void {
+  context.subscriptions.push(
+    notebooks.registerNotebookCellStatusBarItemProvider(NOTEBOOK_TYPE, new CellTitleStatusBarProvider()),
+    commands.registerCommand('databricks.editCellTitle', editCellTitle)
+  );
+}
+
+/**
+ * Prompt for a new cell title (an empty title removes the DBTITLE line)
+ */
+async function editCellTitle(cell?: NotebookCell): Promise<void> {
+  const editor = window.activeNotebookEditor;
+  cell = cell ?? editor?.notebook.cellAt(editor.selection.start);
+
+  if (!cell || !isDatabricksNotebook(cell.notebook)) {
+    return;
+  }
+
+  const current = getIpynbCellMetadata(cell).databricks_title;
+  const title = await window.showInputBox({
+    prompt: 'Cell title (leave empty to remove)',
+    value: typeof current === 'string' ? current : '',
+  });
+
+  if (title === undefined) {
+    return;
+  }
+
+  const edit = new WorkspaceEdit();
+  edit.set(cell.notebook.uri, [
+    NotebookEdit.updateCellMetadata(
+      cell.index,
+      withIpynbCellMetadata(cell, {
+        databricks_title: title === '' ? undefined : title,
+        databricks_title_flag: undefined,
+      })
+    ),
+  ]);
+  await workspace.applyEdit(edit);
+}
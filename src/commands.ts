@@ -1,12 +1,20 @@
-import { commands, window, Uri, ExtensionContext } from 'vscode';
+import { commands, window, workspace, Uri, ExtensionContext, FileType, Selection } from 'vscode';
 import { NOTEBOOK_TYPE, SCHEME } from './constants';
+import { getSettings } from './config';
+import { parseNotebook, serializeNotebook } from './parser';
+import { toNotebookUri, toRealUri } from './filesystem';
+import { suppressAutoOpen } from './autoOpen';
+import { getIpynbCellMetadata } from './cellMetadata';
+import { toFileCellIndex } from './ipynbConverter';
 
 /**
  * Register all extension commands
  */
 export function registerCommands(context: ExtensionContext): void {
   context.subscriptions.push(
-    commands.registerCommand('databricks.openAsNotebook', openAsNotebook)
+    commands.registerCommand('databricks.openAsNotebook', openAsNotebook),
+    commands.registerCommand('databricks.newNotebook', newNotebook),
+    commands.registerCommand('databricks.openAsText', openAsText)
   );
 }
 
@@ -22,17 +30,15 @@ async function openAsNotebook(uri?: Uri): Promise<void> {
     return;
   }
 
-  // Verify it's a Python file
-  if (!uri.fsPath.endsWith('.py')) {
+  // Verify it's a Python file (untitled files have no extension, only a language)
+  if (!uri.path.endsWith('.py') && !isUntitledPython(uri)) {
     void window.showErrorMessage('Not a Python file');
     return;
   }
 
-  // Use FileSystemProvider approach
-  const notebookUri = Uri.from({
-    scheme: SCHEME,
-    path: uri.path,
-  });
+  // Use FileSystemProvider approach, keeping the scheme and authority so
+  // remote, virtual and untitled files map back to where they live
+  const notebookUri = toNotebookUri(uri);
 
   try {
     await commands.executeCommand('vscode.openWith', notebookUri, NOTEBOOK_TYPE);
@@ -41,3 +47,136 @@ async function openAsNotebook(uri?: Uri): Promise<void> {
     void window.showErrorMessage(`Failed to open notebook: ${message}`);
   }
 }
+
+/**
+ * Whether a URI is an open untitled Python document
+ */
+function isUntitledPython(uri: Uri): boolean {
+  return (
+    uri.scheme === 'untitled' &&
+    workspace.textDocuments.some(doc => doc.uri.toString() === uri.toString() && doc.languageId === 'python')
+  );
+}
+
+/**
+ * Open the .py file behind the current notebook as text, revealing the selected cell
+ */
+async function openAsText(uri?: unknown): Promise<void> {
+  const editor = window.activeNotebookEditor;
+  const notebookUri = uri instanceof Uri ? uri : editor?.notebook.uri;
+
+  if (!notebookUri || notebookUri.scheme !== SCHEME) {
+    void window.showErrorMessage('No Databricks notebook is active');
+    return;
+  }
+
+  const realUri = toRealUri(notebookUri);
+
+  try {
+    const document = await workspace.openTextDocument(realUri);
+
+    // Notebook cells map 1:1 to parsed cells once injected cells (the widget
+    // shim) are left out, so the selected cell's index gives its line range
+    // in the .py file (exact as long as it's saved)
+    let selection: Selection | undefined;
+    if (editor?.notebook.uri.toString() === notebookUri.toString()) {
+      const metadata = editor.notebook.getCells().map(getIpynbCellMetadata);
+      const index = toFileCellIndex(metadata, editor.selection.start);
+      const cell = index !== undefined ? parseNotebook(document.getText()).cells[index] : undefined;
+      if (cell && cell.endLine > cell.startLine) {
+        const end = document.lineAt(Math.min(cell.endLine, document.lineCount) - 1).range.end;
+        selection = new Selection(cell.startLine, 0, end.line, end.character);
+      }
+    }
+
+    // Don't let auto-open send the file straight back to the notebook view
+    suppressAutoOpen(realUri);
+    await window.showTextDocument(document, { selection });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    void window.showErrorMessage(`Failed to open file: ${message}`);
+  }
+}
+
+/**
+ * Create a new notebook file in the configured default format and open it
+ */
+async function newNotebook(uri?: Uri): Promise<void> {
+  const folder = await resolveTargetFolder(uri);
+  if (!folder) {
+    return;
+  }
+
+  const name = await window.showInputBox({
+    prompt: 'Name of the new notebook',
+    placeHolder: 'my_notebook.py',
+    validateInput: value => (value.trim() === '' ? 'Enter a file name' : undefined),
+  });
+  if (name === undefined) {
+    return;
+  }
+
+  const fileName = name.trim().endsWith('.py') ? name.trim() : `${name.trim()}.py`;
+  const fileUri = Uri.joinPath(folder, fileName);
+
+  if (await exists(fileUri)) {
+    void window.showErrorMessage(`${fileName} already exists`);
+    return;
+  }
+
+  // Header plus a single empty cell
+  const content = serializeNotebook(
+    [{ source: '', cellKind: 'code', languageId: 'python', startLine: 0, endLine: 1 }],
+    getSettings().defaultFormat,
+    true
+  );
+
+  try {
+    await workspace.fs.writeFile(fileUri, new TextEncoder().encode(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    void window.showErrorMessage(`Failed to create notebook: ${message}`);
+    return;
+  }
+
+  await openAsNotebook(fileUri);
+}
+
+/**
+ * Folder to create a new file in: the selected Explorer folder (or the parent
+ * of a selected file), otherwise the first workspace folder, otherwise ask
+ */
+async function resolveTargetFolder(uri?: Uri): Promise<Uri | undefined> {
+  if (uri) {
+    try {
+      const stat = await workspace.fs.stat(uri);
+      return stat.type & FileType.Directory ? uri : Uri.joinPath(uri, '..');
+    } catch {
+      // Stale Explorer selection (e.g. the file was deleted) - fall through
+    }
+  }
+
+  const workspaceFolder = workspace.workspaceFolders?.[0];
+  if (workspaceFolder) {
+    return workspaceFolder.uri;
+  }
+
+  const selected = await window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    openLabel: 'Create Notebook Here',
+  });
+  return selected?.[0];
+}
+
+/**
+ * Whether a file or folder exists
+ */
+async function exists(uri: Uri): Promise<boolean> {
+  try {
+    await workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+import { workspace } from 'vscode';
+import { DEFAULT_MAGIC_CELLS } from './magicLanguage';
+import { DEFAULT_RUN_DEPTH } from './runMagic';
+import { NotebookFormat } from './types';
+
+/**
+ * Where cell outputs are persisted between sessions
+ */
+export type OutputStorage = 'none' | 'sidecar' | 'workspace';
+
+/**
+ * Extension settings (contributed under `databricksNotebook.*` in package.json)
+ */
+export interface DatabricksNotebookSettings {
+  defaultFormat: Exclude<NotebookFormat, 'plain'>;
+  preserveFormat: boolean;
+  outputStorage: OutputStorage;
+  autoOpen: boolean;
+  autoOpenGlobs: string[];
+  inlineRunDependencies: boolean;
+  runDependencyDepth: number;
+  widgetShim: boolean;
+  hideCellMagics: boolean;
+  magicCells: string[];
+  cellCodeLens: boolean;
+}
+
+/**
+ * Read the current extension settings
+ */
+export function getSettings(): DatabricksNotebookSettings {
+  const config = workspace.getConfiguration('databricksNotebook');
+  return {
+    defaultFormat: config.get<Exclude<NotebookFormat, 'plain'>>('defaultFormat', 'databricks'),
+    preserveFormat: config.get<boolean>('preserveFormat', true),
+    outputStorage: config.get<OutputStorage>('outputStorage', 'none'),
+    autoOpen: config.get<boolean>('autoOpen', false),
+    autoOpenGlobs: config.get<string[]>('autoOpenGlobs', []),
+    inlineRunDependencies: config.get<boolean>('inlineRunDependencies', false),
+    runDependencyDepth: config.get<number>('runDependencyDepth', DEFAULT_RUN_DEPTH),
+    widgetShim: config.get<boolean>('widgetShim', false),
+    hideCellMagics: config.get<boolean>('hideCellMagics', false),
+    magicCells: config.get<string[]>('magicCells', [...DEFAULT_MAGIC_CELLS]),
+    cellCodeLens: config.get<boolean>('cellCodeLens', true),
+  };
+}
@@ -0,0 +1,217 @@
+import { commands, window, workspace, Uri, ExtensionContext } from 'vscode';
+import { convertNotebook, parseNotebook } from './parser';
+import { pyToIpynb, ipynbToPy } from './ipynbConverter';
+import { decodeNotebookText } from './encoding';
+import { NotebookFormat } from './types';
+import { baseName } from './uriMapping';
+
+type TargetFormat = Exclude<NotebookFormat, 'plain'>;
+
+/**
+ * Register commands that convert notebooks between Databricks, percent and .ipynb formats
+ */
+export function registerConversionCommands(context: ExtensionContext): void {
+  context.subscriptions.push(
+    commands.registerCommand('databricks.convertToPercent', (uri?: Uri, uris?: Uri[]) =>
+      convertFormat(selectedFiles(uri, uris, '.py'), 'percent')
+    ),
+    commands.registerCommand('databricks.convertToDatabricks', (uri?: Uri, uris?: Uri[]) =>
+      convertFormat(selectedFiles(uri, uris, '.py'), 'databricks')
+    ),
+    commands.registerCommand('databricks.exportAsIpynb', (uri?: Uri, uris?: Uri[]) =>
+      exportAsIpynb(selectedFiles(uri, uris, '.py'))
+    ),
+    commands.registerCommand('databricks.importIpynb', (uri?: Uri, uris?: Uri[]) =>
+      importIpynb(selectedFiles(uri, uris, '.ipynb'))
+    )
+  );
+}
+
+/**
+ * Files a command applies to: the Explorer multi-selection, the clicked file,
+ * or the active editor's file, filtered to the given extension
+ */
+function selectedFiles(uri: Uri | undefined, uris: Uri[] | undefined, extension: string): Uri[] {
+  const candidates = uris && uris.length > 0 ? uris : [uri ?? window.activeTextEditor?.document.uri];
+  return candidates.filter((u): u is Uri => u !== undefined && u.path.endsWith(extension));
+}
+
+/**
+ * Convert .py notebooks to another format, in place or as new files
+ */
+async function convertFormat(files: Uri[], format: TargetFormat): Promise<void> {
+  if (files.length === 0) {
+    void window.showErrorMessage('No Python files selected');
+    return;
+  }
+
+  const label = format === 'percent' ? 'percent' : 'Databricks';
+  const subject = files.length === 1 ? baseName(files[0] ?? Uri.file('')) : `${files.length} files`;
+  const choice = await window.showWarningMessage(
+    `Convert ${subject} to ${label} format?`,
+    {
+      modal: true,
+      detail: `"Convert in Place" overwrites the original files. "Save as New File" writes <name>_${format}.py next to each file.`,
+    },
+    'Convert in Place',
+    'Save as New File'
+  );
+  if (!choice) {
+    return;
+  }
+
+  let converted = 0;
+  const skipped: string[] = [];
+  const failed: string[] = [];
+
+  for (const file of files) {
+    try {
+      const content = await readText(file);
+      if (parseNotebook(content).format === format) {
+        skipped.push(baseName(file));
+        continue;
+      }
+
+      const target = choice === 'Convert in Place'
+        ? file
+        : siblingWithName(file, baseName(file).replace(/\.py$/, `_${format}.py`));
+
+      if (target !== file && !(await confirmOverwrite(target))) {
+        continue;
+      }
+
+      await writeText(target, convertNotebook(content, format));
+      converted++;
+    } catch (error) {
+      failed.push(describeFailure(file, error));
+    }
+  }
+
+  reportResult(`Converted ${converted} file(s) to ${label} format`, skipped, `already in ${label} format`, failed);
+}
+
+/**
+ * Write a .ipynb file next to each .py notebook
+ */
+async function exportAsIpynb(files: Uri[]): Promise<void> {
+  if (files.length === 0) {
+    void window.showErrorMessage('No Python files selected');
+    return;
+  }
+
+  let exported = 0;
+  const failed: string[] = [];
+
+  for (const file of files) {
+    const target = siblingWithName(file, baseName(file).replace(/\.py$/, '.ipynb'));
+    if (!(await confirmOverwrite(target))) {
+      continue;
+    }
+
+    try {
+      await writeText(target, pyToIpynb(await readText(file)));
+      exported++;
+    } catch (error) {
+      failed.push(describeFailure(file, error));
+    }
+  }
+
+  reportResult(`Exported ${exported} notebook(s) as .ipynb`, [], '', failed);
+}
+
+/**
+ * Write a Databricks format .py notebook next to each .ipynb file
+ */
+async function importIpynb(files: Uri[]): Promise<void> {
+  if (files.length === 0) {
+    void window.showErrorMessage('No .ipynb files selected');
+    return;
+  }
+
+  let imported = 0;
+  const invalid: string[] = [];
+  const failed: string[] = [];
+
+  for (const file of files) {
+    const target = siblingWithName(file, baseName(file).replace(/\.ipynb$/, '.py'));
+    if (!(await confirmOverwrite(target))) {
+      continue;
+    }
+
+    try {
+      const ipynbContent = await readText(file);
+      let pyContent: string;
+      try {
+        pyContent = ipynbToPy(ipynbContent, { preserveFormat: false, defaultFormat: 'databricks' });
+      } catch {
+        invalid.push(baseName(file));
+        continue;
+      }
+
+      await writeText(target, pyContent);
+      imported++;
+    } catch (error) {
+      failed.push(describeFailure(file, error));
+    }
+  }
+
+  reportResult(`Imported ${imported} notebook(s) as Databricks notebooks`, invalid, 'not valid notebooks', failed);
+}
+
+/**
+ * Ask before overwriting an existing file
+ */
+async function confirmOverwrite(uri: Uri): Promise<boolean> {
+  try {
+    await workspace.fs.stat(uri);
+  } catch {
+    return true;
+  }
+
+  const choice = await window.showWarningMessage(
+    `${baseName(uri)} already exists. Overwrite it?`,
+    { modal: true },
+    'Overwrite'
+  );
+  return choice === 'Overwrite';
+}
+
+/**
+ * Show the outcome of a batch, listing the files that were skipped (for the
+ * given reason) or could not be read or written
+ */
+function reportResult(message: string, skipped: string[] = [], reason = '', failed: string[] = []): void {
+  const notes: string[] = [];
+  if (skipped.length > 0) {
+    notes.push(`Skipped ${skipped.join(', ')} (${reason}).`);
+  }
+  if (failed.length > 0) {
+    notes.push(`Failed: ${failed.join('; ')}.`);
+  }
+
+  if (notes.length > 0) {
+    void window.showWarningMessage(`${message}. ${notes.join(' ')}`);
+  } else {
+    void window.showInformationMessage(message);
+  }
+}
+
+/**
+ * A failed file for the batch summary: its name and the error
+ */
+function describeFailure(uri: Uri, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return `${baseName(uri)} (${message})`;
+}
+
+function siblingWithName(uri: Uri, name: string): Uri {
+  return Uri.joinPath(uri, '..', name);
+}
+
+async function readText(uri: Uri): Promise<string> {
+  return decodeNotebookText(await workspace.fs.readFile(uri));
+}
+
+async function writeText(uri: Uri, content: string): Promise<void> {
+  await workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+}
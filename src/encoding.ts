@@ -0,0 +1,33 @@
+/**
+ * Decoding of .py notebook files from raw bytes.
+ */
+
+/**
+ * Raised when a file can't be shown as a notebook because it isn't UTF-8 text
+ */
+export class NotebookDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotebookDecodeError';
+  }
+}
+
+/** How many leading bytes to scan for NUL bytes (the same heuristic git uses) */
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * Decode file bytes as UTF-8 text, rejecting binary files and invalid UTF-8
+ * rather than producing a garbage notebook
+ */
+export function decodeNotebookText(bytes: Uint8Array): string {
+  if (bytes.subarray(0, BINARY_SNIFF_LENGTH).includes(0)) {
+    throw new NotebookDecodeError('File appears to be binary, not a Python notebook');
+  }
+
+  try {
+    // Keep a BOM in the text so the parser can report (and later preserve) it
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(bytes);
+  } catch {
+    throw new NotebookDecodeError('File is not valid UTF-8 text');
+  }
+}
@@ -1,6 +1,17 @@
 import { ExtensionContext, workspace, languages } from 'vscode';
 import { DatabricksNotebookFileSystem } from './filesystem';
 import { registerCommands } from './commands';
+import { registerCellStatusBar } from './cellStatusBar';
+import { registerCellLanguage } from './cellLanguage';
+import { registerCellExecution } from './cellExecution';
+import { registerConversionCommands } from './conversionCommands';
+import { registerAutoOpen } from './autoOpen';
+import { registerProblemReporting } from './problemReporting';
+import { registerRunNavigation } from './runNavigation';
+import { registerMagicCellLanguage } from './magicCellLanguage';
+import { registerSqlFeatures } from './sqlFeatures';
+import { registerNotebookOutline } from './notebookOutline';
+import { registerTextCellFeatures } from './textCellFeatures';
 import { SCHEME } from './constants';
 
 let fileSystem: DatabricksNotebookFileSystem | undefined;
@@ -13,8 +24,11 @@ let fileSystem: DatabricksNotebookFileSystem | undefined;
  * The original .py file remains the source of truth.
  */
 export function activate(context: ExtensionContext): void {
+  // Report parse warnings and conversion errors in an output channel
+  registerProblemReporting(context);
+
   // Register filesystem provider
-  fileSystem = new DatabricksNotebookFileSystem();
+  fileSystem = new DatabricksNotebookFileSystem(context.storageUri);
   context.subscriptions.push(
     workspace.registerFileSystemProvider(SCHEME, fileSystem, {
       isCaseSensitive: true,
@@ -24,6 +38,34 @@ export function activate(context: ExtensionContext): void {
 
   // Register commands
   registerCommands(context);
+  registerConversionCommands(context);
+
+  // Show Databricks cell titles in the notebook UI
+  registerCellStatusBar(context);
+
+  // Pick cell languages and keep their magic lines in sync
+  registerCellLanguage(context);
+
+  // Supply hidden cell magics when cells run
+  registerCellExecution(context);
+
+  // Keep magic cells away from Python language servers
+  registerMagicCellLanguage(context);
+
+  // Format SQL cells, complete table names and highlight parameters
+  registerSqlFeatures(context);
+
+  // Outline of Databricks .py files and the table of contents command
+  registerNotebookOutline(context);
+
+  // Folding, CodeLens and dimmed # MAGIC prefixes in .py files edited as text
+  registerTextCellFeatures(context);
+
+  // Navigate between notebooks chained with %run
+  registerRunNavigation(context);
+
+  // Open Databricks notebooks in the notebook editor when opted in
+  registerAutoOpen(context);
 
   // Register a persistent no-op inline completion provider.
   // This fixes an issue where VS Code doesn't initialize InlineCompletionsController
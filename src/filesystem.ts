@@ -5,11 +5,106 @@ import {
   FileStat,
   FileChangeEvent,
   FileChangeType,
+  FileSystemError,
   EventEmitter,
   Disposable,
+  Position,
+  Range,
+  RelativePattern,
+  TextDocument,
+  WorkspaceEdit,
+  window,
   workspace,
 } from 'vscode';
-import { pyToIpynb, ipynbToPy } from './ipynbConverter';
+import { pyToIpynb, ipynbToPy, extractCellOutputs, IpynbValidationError } from './ipynbConverter';
+import { getSettings } from './config';
+import { hashContent } from './hash';
+import {
+  getSidecarFileName,
+  hasStoredOutputs,
+  parseOutputStore,
+  serializeOutputStore,
+} from './outputStore';
+import { parseNotebook } from './parser';
+import { resolveRunSources } from './runMagic';
+import { describeCellDiff, diffCells } from './cellDiff';
+import { decodeNotebookText, NotebookDecodeError } from './encoding';
+import { logNotebookError, reportParseWarnings } from './problemReporting';
+import { CellOutputStore } from './types';
+import { baseName, toNotebookUriComponents, toRealUriComponents } from './uriMapping';
+
+/**
+ * Convert virtual URI to the real URI it stands for
+ * databricks-notebook:///path/to/file.py → file:///path/to/file.py
+ * databricks-notebook://wsl+Ubuntu/file.py?scheme=vscode-remote → vscode-remote://wsl+Ubuntu/file.py
+ */
+export function toRealUri(uri: Uri): Uri {
+  return Uri.from(toRealUriComponents(uri));
+}
+
+/**
+ * Convert a real URI (local, remote, virtual or untitled) to its virtual notebook URI
+ */
+export function toNotebookUri(uri: Uri): Uri {
+  return Uri.from(toNotebookUriComponents(uri));
+}
+
+/**
+ * Find the open document for an untitled file (untitled files only exist in memory)
+ */
+function findUntitledDocument(realUri: Uri): TextDocument {
+  const document = workspace.textDocuments.find(doc => doc.uri.toString() === realUri.toString());
+  if (!document) {
+    throw FileSystemError.FileNotFound(realUri);
+  }
+  return document;
+}
+
+/**
+ * Re-raise an error from the underlying filesystem against the virtual URI,
+ * keeping its FileSystemError code so VS Code reacts to it properly
+ */
+function toFileSystemError(error: unknown, uri: Uri): FileSystemError {
+  const code = error instanceof FileSystemError ? error.code : undefined;
+
+  switch (code) {
+    case 'FileNotFound':
+    case 'EntryNotFound':
+      return FileSystemError.FileNotFound(uri);
+    case 'FileExists':
+    case 'EntryExists':
+      return FileSystemError.FileExists(uri);
+    case 'FileNotADirectory':
+    case 'EntryNotADirectory':
+      return FileSystemError.FileNotADirectory(uri);
+    case 'FileIsADirectory':
+    case 'EntryIsADirectory':
+      return FileSystemError.FileIsADirectory(uri);
+    case 'NoPermissions':
+      return FileSystemError.NoPermissions(uri);
+    default:
+      return FileSystemError.Unavailable(uri);
+  }
+}
+
+/**
+ * Run an operation on the underlying filesystem, reporting failures against the virtual URI
+ */
+async function forward<T>(uri: Uri, operation: () => Thenable<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toFileSystemError(error, uri);
+  }
+}
+
+/**
+ * What the notebook editor last saw of a .py file, to detect changes made behind its back
+ */
+interface FileSnapshot {
+  hash: string;
+  content: string;
+}
 
 /**
  * Virtual filesystem provider for databricks-notebook:// URIs
@@ -26,16 +121,25 @@ export class DatabricksNotebookFileSystem implements FileSystemProvider {
 
   private readonly watchers = new Map<string, Disposable>();
 
+  /** Last content read from or written to each real file, keyed by real URI */
+  private readonly snapshots = new Map<string, FileSnapshot>();
+
   /**
-   * Convert virtual URI to real file URI
-   * databricks-notebook:///path/to/file.py → file:///path/to/file.py
+   * @param storageUri Workspace storage directory, used when outputs are
+   * persisted with `databricksNotebook.outputStorage: "workspace"`
    */
-  private toRealUri(uri: Uri): Uri {
-    return Uri.file(uri.path);
-  }
+  constructor(private readonly storageUri?: Uri) {}
 
   async stat(uri: Uri): Promise<FileStat> {
-    return workspace.fs.stat(this.toRealUri(uri));
+    const realUri = toRealUri(uri);
+
+    if (realUri.scheme === 'untitled') {
+      const document = findUntitledDocument(realUri);
+      // Bump mtime with each edit so VS Code notices the document changed
+      return { type: FileType.File, ctime: 0, mtime: document.version, size: document.getText().length };
+    }
+
+    return forward(uri, () => workspace.fs.stat(realUri));
   }
 
   /**
@@ -43,11 +147,16 @@ export class DatabricksNotebookFileSystem implements FileSystemProvider {
    * VS Code's built-in jupyter-notebook serializer will then parse the JSON.
    */
   async readFile(uri: Uri): Promise<Uint8Array> {
-    const pyBytes = await workspace.fs.readFile(this.toRealUri(uri));
-    const pyContent = new TextDecoder().decode(pyBytes);
+    const realUri = toRealUri(uri);
+    const pyContent = await this.readNotebookText(uri, realUri);
+    const outputs = await this.readOutputs(realUri);
+    const runSources = await this.readRunSources(realUri, pyContent);
+    reportParseWarnings(realUri, parseNotebook(pyContent).warnings);
+    this.takeSnapshot(uri, pyContent);
 
     // Transform .py format to .ipynb JSON format
-    const ipynbContent = pyToIpynb(pyContent);
+    const { widgetShim, hideCellMagics, magicCells } = getSettings();
+    const ipynbContent = pyToIpynb(pyContent, { outputs, runSources, widgetShim, hideCellMagics, magicCells });
 
     return new TextEncoder().encode(ipynbContent);
   }
@@ -59,14 +168,244 @@ export class DatabricksNotebookFileSystem implements FileSystemProvider {
   async writeFile(
     uri: Uri,
     content: Uint8Array,
-    _options: { create: boolean; overwrite: boolean }
+    options: { create: boolean; overwrite: boolean }
   ): Promise<void> {
     const ipynbContent = new TextDecoder().decode(content);
+    const realUri = toRealUri(uri);
+    const original = await this.readExisting(realUri);
+
+    if (original === undefined && !options.create) {
+      throw FileSystemError.FileNotFound(uri);
+    }
+    if (original !== undefined && options.create && !options.overwrite) {
+      throw FileSystemError.FileExists(uri);
+    }
+    if (original !== undefined) {
+      this.reportOverwrittenChanges(uri, original);
+    }
 
     // Transform .ipynb JSON format back to .py format
-    const pyContent = ipynbToPy(ipynbContent);
+    const { preserveFormat, defaultFormat } = getSettings();
+    let pyContent: string;
+    let outputs: CellOutputStore;
+    try {
+      pyContent = ipynbToPy(ipynbContent, { preserveFormat, defaultFormat, original });
+      outputs = extractCellOutputs(ipynbContent);
+    } catch (error) {
+      if (error instanceof IpynbValidationError) {
+        logNotebookError(realUri, `Not saved: ${error.message}`);
+        throw FileSystemError.Unavailable(`Can't save notebook: ${error.message}`);
+      }
+      throw error;
+    }
+
+    await forward(uri, () => this.writeText(realUri, pyContent));
+    this.takeSnapshot(uri, pyContent);
+    if (original === undefined) {
+      this._onDidChangeFile.fire([{ type: FileChangeType.Created, uri }]);
+    }
+    await this.writeOutputs(realUri, outputs);
+  }
+
+  /**
+   * Python source of the notebooks included with `%run`, when inlining is enabled
+   */
+  private async readRunSources(realUri: Uri, pyContent: string): Promise<Record<string, string> | undefined> {
+    const { inlineRunDependencies, runDependencyDepth } = getSettings();
+    if (!inlineRunDependencies || realUri.scheme === 'untitled') {
+      return undefined;
+    }
+
+    return resolveRunSources(realUri.path, pyContent, {
+      maxDepth: runDependencyDepth,
+      readNotebook: async path => {
+        try {
+          return decodeNotebookText(await workspace.fs.readFile(realUri.with({ path })));
+        } catch {
+          return undefined;
+        }
+      },
+    });
+  }
+
+  /**
+   * Remember the content the notebook editor now holds for a file
+   */
+  private takeSnapshot(uri: Uri, content: string): void {
+    this.snapshots.set(toRealUri(uri).toString(), { hash: hashContent(content), content });
+  }
+
+  /**
+   * Summarize the changes on disk a save is overwriting. VS Code's own "file
+   * is newer" check has already asked the user by the time the save reaches
+   * the filesystem, so this only reports which cells the overwrite discarded.
+   */
+  private reportOverwrittenChanges(uri: Uri, current: string): void {
+    const snapshot = this.snapshots.get(toRealUri(uri).toString());
+
+    // A touched but otherwise identical file is not a conflict
+    if (!snapshot || hashContent(current) === snapshot.hash) {
+      return;
+    }
+
+    const summary = diffCells(parseNotebook(snapshot.content).cells, parseNotebook(current).cells);
+    const fileName = baseName(uri);
+    void window.showWarningMessage(
+      `${fileName} had changed on disk since it was opened. Overwrote the changes on disk (${describeCellDiff(summary)}).`
+    );
+  }
 
-    await workspace.fs.writeFile(this.toRealUri(uri), new TextEncoder().encode(pyContent));
+  /**
+   * Read the current .py content, or undefined if the file doesn't exist yet.
+   * Other errors (including binary or non-UTF-8 content) are passed on, so
+   * such files are never overwritten unasked.
+   */
+  private async readExisting(realUri: Uri): Promise<string | undefined> {
+    try {
+      return await this.readText(realUri);
+    } catch (error) {
+      const code = error instanceof FileSystemError ? error.code : undefined;
+      if (code === 'FileNotFound' || code === 'EntryNotFound') {
+        return undefined;
+      }
+      if (error instanceof NotebookDecodeError) {
+        logNotebookError(realUri, `Not saved: ${error.message}`);
+        throw FileSystemError.Unavailable(`Can't save notebook: ${error.message}`);
+      }
+      throw toFileSystemError(error, toNotebookUri(realUri));
+    }
+  }
+
+  /**
+   * Read .py content for the notebook editor, failing with a readable
+   * message for binary or non-UTF-8 files
+   */
+  private async readNotebookText(uri: Uri, realUri: Uri): Promise<string> {
+    try {
+      return await this.readText(realUri);
+    } catch (error) {
+      if (error instanceof NotebookDecodeError) {
+        logNotebookError(realUri, `Can't open as a notebook: ${error.message}`);
+        throw FileSystemError.Unavailable(`Can't open as a notebook: ${error.message}`);
+      }
+      throw toFileSystemError(error, uri);
+    }
+  }
+
+  /**
+   * Read .py content from the underlying filesystem (or open untitled document)
+   */
+  private async readText(realUri: Uri): Promise<string> {
+    if (realUri.scheme === 'untitled') {
+      return findUntitledDocument(realUri).getText();
+    }
+
+    return decodeNotebookText(await workspace.fs.readFile(realUri));
+  }
+
+  /**
+   * Write .py content to the underlying filesystem. Untitled documents are
+   * edited in place instead, leaving them for the user to save.
+   */
+  private async writeText(realUri: Uri, content: string): Promise<void> {
+    if (realUri.scheme !== 'untitled') {
+      await workspace.fs.writeFile(realUri, new TextEncoder().encode(content));
+      return;
+    }
+
+    const document = findUntitledDocument(realUri);
+    const edit = new WorkspaceEdit();
+    edit.replace(realUri, new Range(new Position(0, 0), document.lineAt(document.lineCount - 1).range.end), content);
+    if (!(await workspace.applyEdit(edit))) {
+      throw FileSystemError.Unavailable(realUri);
+    }
+  }
+
+  /**
+   * Location of the persisted outputs for a real file, or undefined when
+   * output storage is disabled (or unavailable, e.g. no workspace open)
+   */
+  private getOutputsUri(realUri: Uri): Uri | undefined {
+    const { outputStorage } = getSettings();
+
+    // Untitled files have no folder for a sidecar and no stable identity
+    if (realUri.scheme === 'untitled') {
+      return undefined;
+    }
+
+    if (outputStorage === 'sidecar') {
+      const fileName = baseName(realUri);
+      return Uri.joinPath(realUri, '..', getSidecarFileName(fileName));
+    }
+
+    if (outputStorage === 'workspace' && this.storageUri) {
+      return Uri.joinPath(this.storageUri, 'outputs', `${hashContent(realUri.toString())}.json`);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Load persisted outputs for a real file (missing or unreadable stores are ignored)
+   */
+  private async readOutputs(realUri: Uri): Promise<CellOutputStore | undefined> {
+    const outputsUri = this.getOutputsUri(realUri);
+    if (!outputsUri) {
+      return undefined;
+    }
+
+    try {
+      const bytes = await workspace.fs.readFile(outputsUri);
+      return parseOutputStore(new TextDecoder().decode(bytes));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist outputs for a real file, removing the store once no outputs remain
+   */
+  private async writeOutputs(realUri: Uri, outputs: CellOutputStore): Promise<void> {
+    const outputsUri = this.getOutputsUri(realUri);
+    if (!outputsUri) {
+      return;
+    }
+
+    if (hasStoredOutputs(outputs)) {
+      await workspace.fs.writeFile(outputsUri, new TextEncoder().encode(serializeOutputStore(outputs)));
+      return;
+    }
+
+    await this.deleteOutputs(realUri);
+  }
+
+  /**
+   * Remove persisted outputs for a real file, if any
+   */
+  private async deleteOutputs(realUri: Uri): Promise<void> {
+    const outputsUri = this.getOutputsUri(realUri);
+    if (!outputsUri) {
+      return;
+    }
+
+    try {
+      await workspace.fs.delete(outputsUri);
+    } catch {
+      // Nothing stored yet
+    }
+  }
+
+  /**
+   * Carry persisted outputs over to a file's new location after a rename
+   */
+  private async moveOutputs(oldRealUri: Uri, newRealUri: Uri): Promise<void> {
+    const outputs = await this.readOutputs(oldRealUri);
+    if (!outputs || !hasStoredOutputs(outputs)) {
+      return;
+    }
+
+    await this.writeOutputs(newRealUri, outputs);
+    await this.deleteOutputs(oldRealUri);
   }
 
   watch(uri: Uri): Disposable {
@@ -78,8 +417,18 @@ export class DatabricksNotebookFileSystem implements FileSystemProvider {
       return existing;
     }
 
-    const realUri = this.toRealUri(uri);
-    const watcher = workspace.createFileSystemWatcher(realUri.fsPath);
+    const realUri = toRealUri(uri);
+
+    // Untitled documents only change through the notebook itself
+    if (realUri.scheme === 'untitled') {
+      return new Disposable(() => undefined);
+    }
+
+    // A relative pattern routes the watch to whichever filesystem owns the file
+    const fileName = baseName(realUri);
+    const watcher = workspace.createFileSystemWatcher(
+      new RelativePattern(Uri.joinPath(realUri, '..'), fileName)
+    );
 
     const disposables: Disposable[] = [];
 
@@ -113,21 +462,54 @@ export class DatabricksNotebookFileSystem implements FileSystemProvider {
     };
   }
 
-  // Required by interface but not used for our purposes
-  readDirectory(_uri: Uri): [string, FileType][] {
-    return [];
+  /**
+   * List a real directory, keeping only subdirectories and .py files
+   * (e.g. for the Save As dialog)
+   */
+  async readDirectory(uri: Uri): Promise<[string, FileType][]> {
+    const entries = await forward(uri, () => workspace.fs.readDirectory(toRealUri(uri)));
+    return entries.filter(([name, type]) => type & FileType.Directory || name.endsWith('.py'));
   }
 
-  createDirectory(_uri: Uri): void {
-    // Not supported - we only work with existing files
+  async createDirectory(uri: Uri): Promise<void> {
+    await forward(uri, () => workspace.fs.createDirectory(toRealUri(uri)));
+    this._onDidChangeFile.fire([{ type: FileChangeType.Created, uri }]);
   }
 
-  delete(_uri: Uri): void {
-    // Not supported - delete the real file manually
+  /**
+   * Delete the real file (or directory) along with any persisted outputs
+   */
+  async delete(uri: Uri, options: { recursive: boolean }): Promise<void> {
+    const realUri = toRealUri(uri);
+
+    await forward(uri, () => workspace.fs.delete(realUri, { recursive: options.recursive, useTrash: false }));
+    await this.deleteOutputs(realUri);
+    this.snapshots.delete(realUri.toString());
+
+    this._onDidChangeFile.fire([{ type: FileChangeType.Deleted, uri }]);
   }
 
-  rename(_oldUri: Uri, _newUri: Uri): void {
-    // Not supported - rename the real file manually
+  /**
+   * Rename the real file, moving persisted outputs with it. The change
+   * events let open notebook editors follow the file to its new location.
+   */
+  async rename(oldUri: Uri, newUri: Uri, options: { overwrite: boolean }): Promise<void> {
+    const oldRealUri = toRealUri(oldUri);
+    const newRealUri = toRealUri(newUri);
+
+    await forward(oldUri, () => workspace.fs.rename(oldRealUri, newRealUri, { overwrite: options.overwrite }));
+    await this.moveOutputs(oldRealUri, newRealUri);
+
+    const snapshot = this.snapshots.get(oldRealUri.toString());
+    this.snapshots.delete(oldRealUri.toString());
+    if (snapshot) {
+      this.snapshots.set(newRealUri.toString(), snapshot);
+    }
+
+    this._onDidChangeFile.fire([
+      { type: FileChangeType.Deleted, uri: oldUri },
+      { type: FileChangeType.Created, uri: newUri },
+    ]);
   }
 
   dispose(): void {
@@ -135,6 +517,7 @@ export class DatabricksNotebookFileSystem implements FileSystemProvider {
       watcher.dispose();
     }
     this.watchers.clear();
+    this.snapshots.clear();
     this._onDidChangeFile.dispose();
   }
 }
@@ -0,0 +1,8 @@
+import { createHash } from 'crypto';
+
+/**
+ * Compute a short, stable hash of a string (used for cell identity and change detection)
+ */
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content, 'utf8').digest('hex').slice(0, 16);
+}
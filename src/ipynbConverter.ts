@@ -6,7 +6,51 @@
  */
 
 import { parseNotebook, serializeNotebook } from './parser';
-import { ParsedCell } from './types';
+import { createOutputStore, getCellKeys, getStoredOutput } from './outputStore';
+import { getRunCellTarget } from './runMagic';
+import { MAGIC_LANGUAGE, isMagicCell } from './magicLanguage';
+import { buildWidgetShim } from './widgets';
+import { CellLanguage, CellOutputStore, NotebookFormat, ParsedCell, TextStyle } from './types';
+
+/**
+ * Options for converting .py content to .ipynb
+ */
+export interface PyToIpynbOptions {
+  /** Previously persisted outputs to restore onto matching cells */
+  outputs?: CellOutputStore;
+  /**
+   * Python source to run in place of `%run` cells, keyed by target (see
+   * resolveRunSources). The `%run` line is restored when saving.
+   */
+  runSources?: Record<string, string>;
+  /**
+   * Leave the cell magic (`%%sql`, `%%bash`, ...) out of non-Python cells;
+   * their language is still set through metadata
+   */
+  hideCellMagics?: boolean;
+  /**
+   * Add a first cell, tagged `parameters`, with the notebook's widget values
+   * and a local `dbutils.widgets` stand-in. The cell is dropped when saving.
+   */
+  widgetShim?: boolean;
+  /**
+   * Magics (without `%`) whose Python cells get MAGIC_LANGUAGE, so Python
+   * language servers don't report errors for them
+   */
+  magicCells?: readonly string[];
+}
+
+/**
+ * Options for converting .ipynb back to .py content
+ */
+export interface IpynbToPyOptions {
+  /** Keep the notebook's original format (default true); when false, save as defaultFormat */
+  preserveFormat?: boolean;
+  /** Format for plain files, notebooks without format metadata, and normalized saves */
+  defaultFormat?: Exclude<NotebookFormat, 'plain'>;
+  /** Current .py content on disk; unchanged cells are written back byte-for-byte */
+  original?: string;
+}
 
 /**
  * Cell metadata for language tracking
@@ -16,8 +60,17 @@ interface CellMetadata {
   vscode?: {
     languageId?: string;
   };
-  // Our custom metadata for round-trip
+  // Language when the file was opened (a language picked in the UI, in
+  // vscode.languageId, takes precedence when saving)
   databricks_language?: string;
+  // Cell title from a Databricks `# DBTITLE` line
+  databricks_title?: string;
+  // DBTITLE flag, only stored when it isn't the usual 1
+  databricks_title_flag?: number;
+  // Original `%run` line of a cell showing inlined dependencies
+  databricks_run?: string;
+  // Marks cells added for local runs, which are not saved to the .py file
+  databricks_injected?: string;
   [key: string]: unknown;
 }
 
@@ -26,7 +79,7 @@ interface CellMetadata {
  */
 interface IpynbCell {
   cell_type: 'code' | 'markdown' | 'raw';
-  source: string[];
+  source: string | string[];
   metadata: CellMetadata;
   execution_count?: number | null;
   outputs?: unknown[];
@@ -51,6 +104,10 @@ interface IpynbNotebook {
     databricks_notebook?: {
       format: 'databricks' | 'percent' | 'plain';
       hasDatabricksHeader: boolean;
+      // Line endings, BOM and final newline of the .py file
+      eol?: TextStyle['eol'];
+      bom?: boolean;
+      finalNewline?: boolean;
     };
     [key: string]: unknown;
   };
@@ -58,13 +115,125 @@ interface IpynbNotebook {
   nbformat_minor: number;
 }
 
+/**
+ * Raised when notebook JSON received from VS Code isn't a notebook we can save
+ */
+export class IpynbValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IpynbValidationError';
+  }
+}
+
+/**
+ * Parse and check notebook JSON before converting it, so a corrupt payload
+ * fails with a clear message instead of writing a broken .py file
+ */
+function parseIpynb(ipynbContent: string): IpynbNotebook {
+  let data: unknown;
+  try {
+    data = JSON.parse(ipynbContent);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new IpynbValidationError(`Notebook is not valid JSON: ${message}`);
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.cells)) {
+    throw new IpynbValidationError('Notebook has no "cells" list');
+  }
+  if (typeof data.nbformat === 'number' && data.nbformat < 4) {
+    throw new IpynbValidationError(`Unsupported notebook format version ${data.nbformat}`);
+  }
+  if (data.metadata !== undefined && !isRecord(data.metadata)) {
+    throw new IpynbValidationError('Notebook "metadata" must be an object');
+  }
+
+  data.cells.forEach((cell: unknown, index) => {
+    const where = `Cell ${index + 1}`;
+    if (!isRecord(cell)) {
+      throw new IpynbValidationError(`${where} is not an object`);
+    }
+    if (cell.cell_type !== 'code' && cell.cell_type !== 'markdown' && cell.cell_type !== 'raw') {
+      throw new IpynbValidationError(`${where} has unknown cell_type ${JSON.stringify(cell.cell_type)}`);
+    }
+    const source = cell.source;
+    if (typeof source !== 'string' && !(Array.isArray(source) && source.every(line => typeof line === 'string'))) {
+      throw new IpynbValidationError(`${where} has no text "source"`);
+    }
+    if (cell.metadata !== undefined && !isRecord(cell.metadata)) {
+      throw new IpynbValidationError(`${where} "metadata" must be an object`);
+    }
+    if (cell.outputs !== undefined && !Array.isArray(cell.outputs)) {
+      throw new IpynbValidationError(`${where} "outputs" must be a list`);
+    }
+  });
+
+  // Optional fields default to empty, which the converters rely on
+  const notebook = data as unknown as IpynbNotebook;
+  notebook.metadata = notebook.metadata ?? {};
+  for (const cell of notebook.cells) {
+    cell.metadata = cell.metadata ?? {};
+  }
+  return notebook;
+}
+
+/**
+ * Kernel cell magic that runs each non-Python code language from a Python kernel
+ */
+const KERNEL_CELL_MAGICS: Partial<Record<CellLanguage, string>> = {
+  sql: '%%sql',
+  shellscript: '%%bash',
+  // rpy2's cell magic for running R from a Python kernel
+  r: '%%R',
+  scala: '%%scala',
+};
+
+/** Cell magic lines recognized when reading a cell back (first line of the cell) */
+const CELL_MAGIC_LINE_REGEX = /^%%(sql|bash|sh|R|r|scala|python)\s*$/;
+
+/**
+ * Cell magic a code cell needs to run in a Python kernel, if any
+ */
+export function getCellMagic(language: CellLanguage, source: string): string | undefined {
+  // Don't add %%bash for %pip cells - they should remain as-is
+  if (language === 'shellscript' && source.trim().startsWith('%pip')) {
+    return undefined;
+  }
+  return KERNEL_CELL_MAGICS[language];
+}
+
+/**
+ * Replace a cell's leading cell magic (if any) with the one its language
+ * needs, so kernel execution matches the cell language
+ */
+export function withCellMagic(source: string, language: CellLanguage): string {
+  const body = withoutCellMagic(source);
+  const magic = getCellMagic(language, body);
+  return magic ? `${magic}\n${body}` : body;
+}
+
+/**
+ * Remove a cell's leading cell magic line, if any
+ */
+export function withoutCellMagic(source: string): string {
+  const lines = source.split('\n');
+  return CELL_MAGIC_LINE_REGEX.test(lines[0]?.trim() ?? '') ? lines.slice(1).join('\n') : source;
+}
+
 /**
  * Convert Databricks .py content to .ipynb JSON format
  */
-export function pyToIpynb(pyContent: string): string {
+export function pyToIpynb(pyContent: string, options: PyToIpynbOptions = {}): string {
   const parsed = parseNotebook(pyContent);
 
-  const ipynbCells: IpynbCell[] = parsed.cells.map(cell => {
+  // Give notebooks without any content (e.g. just a header) one empty cell to type in
+  if (parsed.cells.length === 0) {
+    parsed.cells.push({ source: '', cellKind: 'code', languageId: 'python', startLine: 0, endLine: 0 });
+  }
+
+  const cellKeys = getCellKeys(parsed.cells);
+
+  const ipynbCells: IpynbCell[] = parsed.cells.map((cell, index) => {
     // Split source into lines (ipynb stores as array of lines)
     const sourceLines = splitIntoLines(cell.source);
 
@@ -72,45 +241,71 @@ export function pyToIpynb(pyContent: string): string {
       return {
         cell_type: 'markdown',
         source: sourceLines,
-        metadata: {},
+        metadata: { ...cell.metadata, ...getTitleMetadata(cell) },
+      };
+    }
+
+    if (cell.languageId === 'raw') {
+      return {
+        cell_type: 'raw',
+        source: sourceLines,
+        metadata: { ...cell.metadata, ...getTitleMetadata(cell) },
       };
     }
 
     // For non-Python code cells, add the magic command so the kernel
     // knows how to execute them. This means %%sql will be visible in the
     // cell, but it gets stripped when saving back to .py format.
-    let finalSource = sourceLines;
-    if (cell.languageId === 'sql') {
-      finalSource = ['%%sql\n', ...sourceLines];
-    } else if (cell.languageId === 'shellscript') {
-      // Don't add %%bash for %pip cells - they should remain as-is
-      const firstLine = cell.source.trim().split('\n')[0] ?? '';
-      if (!firstLine.startsWith('%pip')) {
-        finalSource = ['%%bash\n', ...sourceLines];
-      }
-    }
+    const magic = options.hideCellMagics ? undefined : getCellMagic(cell.languageId, cell.source);
+    let finalSource = magic ? [`${magic}\n`, ...sourceLines] : sourceLines;
 
     // Build metadata for round-trip and VS Code language hints
     const metadata: CellMetadata = {
+      ...cell.metadata,
       databricks_language: cell.languageId,
+      ...getTitleMetadata(cell),
     };
 
+    // Show a `%run` cell's dependencies inline so it runs in a local kernel
+    const runTarget = getRunCellTarget(cell);
+    const runSource = runTarget !== undefined ? options.runSources?.[runTarget] : undefined;
+    if (runSource !== undefined) {
+      finalSource = splitIntoLines(runSource);
+      metadata.databricks_run = cell.source;
+    }
+
     // Set VS Code language ID for syntax highlighting
     if (cell.languageId !== 'python') {
       metadata.vscode = {
         languageId: cell.languageId,
       };
+    } else if (runSource === undefined && isMagicCell(cell.source, options.magicCells ?? [])) {
+      metadata.vscode = {
+        languageId: MAGIC_LANGUAGE,
+      };
     }
 
+    const stored = getStoredOutput(options.outputs, cellKeys[index] ?? '');
+
     return {
       cell_type: 'code',
       source: finalSource,
       metadata,
-      execution_count: null,
-      outputs: [],
+      execution_count: stored?.execution_count ?? null,
+      outputs: stored?.outputs ?? [],
     };
   });
 
+  if (options.widgetShim && parsed.widgets.length > 0) {
+    ipynbCells.unshift({
+      cell_type: 'code',
+      source: splitIntoLines(buildWidgetShim(parsed.widgets)),
+      metadata: { tags: ['parameters'], databricks_injected: 'widgets' },
+      execution_count: null,
+      outputs: [],
+    });
+  }
+
   const ipynb: IpynbNotebook = {
     cells: ipynbCells,
     metadata: {
@@ -127,6 +322,7 @@ export function pyToIpynb(pyContent: string): string {
       databricks_notebook: {
         format: parsed.format,
         hasDatabricksHeader: parsed.hasDatabricksHeader,
+        ...parsed.textStyle,
       },
     },
     nbformat: 4,
@@ -139,39 +335,211 @@ export function pyToIpynb(pyContent: string): string {
 /**
  * Convert .ipynb JSON format back to Databricks .py content
  */
-export function ipynbToPy(ipynbContent: string): string {
-  const ipynb = JSON.parse(ipynbContent) as IpynbNotebook;
+export function ipynbToPy(ipynbContent: string, options: IpynbToPyOptions = {}): string {
+  const ipynb = parseIpynb(ipynbContent);
+  const { format, includeHeader } = resolveOutputFormat(ipynb, options);
+
+  const original = options.original !== undefined ? parseNotebook(options.original) : undefined;
+  const textStyle = getStoredTextStyle(ipynb) ?? original?.textStyle;
+
+  return serializeNotebook(toParsedCells(ipynb), format, includeHeader, { original, textStyle });
+}
+
+/**
+ * Line endings, BOM and final newline recorded when the notebook was opened
+ */
+function getStoredTextStyle(ipynb: IpynbNotebook): TextStyle | undefined {
+  const stored = ipynb.metadata.databricks_notebook;
+  if (
+    (stored?.eol !== 'lf' && stored?.eol !== 'crlf') ||
+    typeof stored.bom !== 'boolean' ||
+    typeof stored.finalNewline !== 'boolean'
+  ) {
+    return undefined;
+  }
+
+  return { eol: stored.eol, bom: stored.bom, finalNewline: stored.finalNewline };
+}
+
+/**
+ * Decide which format to save in, based on the stored format metadata and settings
+ */
+function resolveOutputFormat(
+  ipynb: IpynbNotebook,
+  options: IpynbToPyOptions
+): { format: NotebookFormat; includeHeader: boolean } {
+  const stored = ipynb.metadata.databricks_notebook;
+  const preserveFormat = options.preserveFormat ?? true;
 
   // Get format info from metadata, defaulting to databricks
-  const format = ipynb.metadata.databricks_notebook?.format ?? 'databricks';
-  const hasDatabricksHeader = ipynb.metadata.databricks_notebook?.hasDatabricksHeader ?? true;
+  let format: NotebookFormat = stored?.format ?? options.defaultFormat ?? 'databricks';
+
+  if (!preserveFormat || (format === 'plain' && options.defaultFormat)) {
+    format = options.defaultFormat ?? 'databricks';
+  }
+
+  // Keep a headerless Databricks file headerless, but add the header when converting
+  const includeHeader = format === stored?.format ? stored.hasDatabricksHeader : true;
+
+  return { format, includeHeader };
+}
 
-  const cells: ParsedCell[] = ipynb.cells.map((cell, index) => {
+/**
+ * Collect the outputs of all executed code cells, keyed by cell identity,
+ * so they can be persisted alongside the .py file
+ */
+export function extractCellOutputs(ipynbContent: string): CellOutputStore {
+  const ipynb = parseIpynb(ipynbContent);
+  const cells = toParsedCells(ipynb);
+  const cellKeys = getCellKeys(cells);
+  const store = createOutputStore();
+
+  getSavedCells(ipynb).forEach((cell, index) => {
+    const key = cellKeys[index];
+    const outputs = cell.outputs ?? [];
+    if (cell.cell_type !== 'code' || !key) {
+      return;
+    }
+    if (outputs.length === 0 && (cell.execution_count ?? null) === null) {
+      return;
+    }
+    store.cells[key] = {
+      execution_count: cell.execution_count ?? null,
+      outputs,
+    };
+  });
+
+  return store;
+}
+
+/**
+ * Convert ipynb cells to parsed cells, stripping kernel magics
+ */
+function toParsedCells(ipynb: IpynbNotebook): ParsedCell[] {
+  return getSavedCells(ipynb).map((cell, index) => {
     const source = joinLines(cell.source);
+    const metadata = cell.metadata;
 
     if (cell.cell_type === 'markdown') {
-      return {
+      return withCellMetadata({
         source,
         cellKind: 'markup' as const,
         languageId: 'markdown' as const,
         startLine: index,
         endLine: index + 1,
-      };
+      }, metadata);
+    }
+
+    if (cell.cell_type === 'raw') {
+      return withCellMetadata({
+        source,
+        cellKind: 'code' as const,
+        languageId: 'raw' as const,
+        startLine: index,
+        endLine: index + 1,
+      }, metadata);
+    }
+
+    // Cells showing inlined `%run` dependencies are saved as the `%run` line
+    if (typeof metadata.databricks_run === 'string') {
+      return withCellMetadata({
+        source: metadata.databricks_run,
+        cellKind: 'code' as const,
+        languageId: 'python' as const,
+        startLine: index,
+        endLine: index + 1,
+      }, metadata);
     }
 
     // For code cells, detect and strip magic commands
-    const { content, language } = extractMagicAndContent(source, cell.metadata);
+    const { content, language } = extractMagicAndContent(source, metadata);
 
-    return {
+    return withCellMetadata({
       source: content,
       cellKind: 'code' as const,
       languageId: language,
       startLine: index,
       endLine: index + 1,
-    };
+    }, metadata);
   });
+}
+
+/**
+ * Cells that belong in the .py file, leaving out cells injected for local runs
+ */
+function getSavedCells(ipynb: IpynbNotebook): IpynbCell[] {
+  return ipynb.cells.filter(cell => !isInjectedCell(cell.metadata));
+}
+
+/**
+ * Whether a cell was injected for local runs (e.g. the widget shim) and is
+ * not part of the .py file
+ */
+export function isInjectedCell(metadata: Record<string, unknown>): boolean {
+  return metadata.databricks_injected !== undefined;
+}
 
-  return serializeNotebook(cells, format, hasDatabricksHeader);
+/**
+ * Index in the .py file of the notebook cell at `index`, given the ipynb
+ * metadata of every notebook cell. Undefined for injected cells.
+ */
+export function toFileCellIndex(metadata: Record<string, unknown>[], index: number): number | undefined {
+  const cell = metadata[index];
+  if (!cell || isInjectedCell(cell)) {
+    return undefined;
+  }
+  return metadata.slice(0, index).filter(other => !isInjectedCell(other)).length;
+}
+
+/**
+ * Index in the notebook of the .py file's cell at `fileIndex`, given the
+ * ipynb metadata of every notebook cell
+ */
+export function toNotebookCellIndex(metadata: Record<string, unknown>[], fileIndex: number): number | undefined {
+  let remaining = fileIndex;
+  for (const [index, cell] of metadata.entries()) {
+    if (!isInjectedCell(cell) && remaining-- === 0) {
+      return index;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the cell metadata that carries a DBTITLE through the notebook editor
+ */
+function getTitleMetadata(cell: ParsedCell): CellMetadata {
+  if (cell.title === undefined) {
+    return {};
+  }
+
+  const metadata: CellMetadata = { databricks_title: cell.title };
+  if (cell.titleFlag !== undefined && cell.titleFlag !== 1) {
+    metadata.databricks_title_flag = cell.titleFlag;
+  }
+  return metadata;
+}
+
+/**
+ * Restore the title and user metadata (e.g. percent `key=value` pairs) onto a parsed cell
+ */
+function withCellMetadata(cell: ParsedCell, metadata: CellMetadata): ParsedCell {
+  if (typeof metadata.databricks_title === 'string') {
+    cell.title = metadata.databricks_title;
+    if (typeof metadata.databricks_title_flag === 'number') {
+      cell.titleFlag = metadata.databricks_title_flag;
+    }
+  }
+
+  // Everything except our own bookkeeping and VS Code's language hint
+  const userMetadata = Object.fromEntries(
+    Object.entries(metadata).filter(([key]) => key !== 'vscode' && !key.startsWith('databricks_'))
+  );
+  if (Object.keys(userMetadata).length > 0) {
+    cell.metadata = userMetadata;
+  }
+
+  return cell;
 }
 
 /**
@@ -209,9 +577,9 @@ function extractMagicAndContent(
   source: string,
   metadata: CellMetadata
 ): { content: string; language: ParsedCell['languageId'] } {
-  // Check if we stored the original language (prefer our custom metadata)
-  const storedLanguage = metadata.databricks_language;
-  // Also check VS Code metadata as fallback
+  // The language picked in the notebook UI. VS Code keeps it in
+  // vscode.languageId and leaves it out for Python (the notebook language),
+  // so it wins over the databricks_language recorded when the file was opened.
   const vscodeLanguage = metadata.vscode?.languageId;
 
   const lines = source.split('\n');
@@ -232,6 +600,20 @@ function extractMagicAndContent(
     };
   }
 
+  if (firstLine === '%%R' || firstLine === '%%r') {
+    return {
+      content: lines.slice(1).join('\n'),
+      language: 'r',
+    };
+  }
+
+  if (firstLine === '%%scala') {
+    return {
+      content: lines.slice(1).join('\n'),
+      language: 'scala',
+    };
+  }
+
   if (firstLine === '%%python') {
     return {
       content: lines.slice(1).join('\n'),
@@ -254,6 +636,20 @@ function extractMagicAndContent(
     };
   }
 
+  if (firstLine === '%r') {
+    return {
+      content: lines.slice(1).join('\n'),
+      language: 'r',
+    };
+  }
+
+  if (firstLine === '%scala') {
+    return {
+      content: lines.slice(1).join('\n'),
+      language: 'scala',
+    };
+  }
+
   if (firstLine === '%md') {
     return {
       content: lines.slice(1).join('\n'),
@@ -272,10 +668,24 @@ function extractMagicAndContent(
     };
   }
 
-  // Use stored language if available, otherwise default to python
-  const language = storedLanguage ?? vscodeLanguage ?? 'python';
   return {
     content: source,
-    language: language as ParsedCell['languageId'],
+    language: vscodeLanguage !== undefined && isCodeLanguage(vscodeLanguage) ? vscodeLanguage : 'python',
   };
 }
+
+/**
+ * Languages a code cell can have in a Databricks notebook
+ */
+export const CODE_CELL_LANGUAGES: readonly CellLanguage[] = ['python', 'sql', 'shellscript', 'r', 'scala'];
+
+/**
+ * Whether a VS Code language ID is one a code cell can round-trip with
+ */
+export function isCodeLanguage(languageId: string): languageId is CellLanguage {
+  return (CODE_CELL_LANGUAGES as readonly string[]).includes(languageId);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,133 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionProvider,
+  ExtensionContext,
+  NotebookCell,
+  NotebookCellData,
+  NotebookCellKind,
+  NotebookDocument,
+  NotebookEdit,
+  NotebookRange,
+  Range,
+  TextDocument,
+  WorkspaceEdit,
+  languages,
+  window,
+  workspace,
+} from 'vscode';
+import { isDatabricksNotebook } from './cellMetadata';
+import { getSettings } from './config';
+import { getAnalysisLanguage, isMagicLine, splitMagicLines } from './magicLanguage';
+
+/**
+ * Cells selected in each notebook, checked again once the selection moves on
+ */
+const selectedCells = new Map<NotebookDocument, NotebookCell[]>();
+
+/**
+ * Register the handlers that move magic cells to and from MAGIC_LANGUAGE,
+ * keeping Python language servers from reporting errors for them.
+ *
+ * Notebooks get the right languages when they are opened (see pyToIpynb);
+ * cells edited afterwards are checked when they are left, so a cell doesn't
+ * change language while it is being typed in. Magic lines in cells that
+ * also have Python get a quick fix that moves them to cells of their own.
+ */
+export function registerMagicCellLanguage(context: ExtensionContext): void {
+  context.subscriptions.push(
+    window.onDidChangeNotebookEditorSelection(event => {
+      const { notebook } = event.notebookEditor;
+      if (!isDatabricksNotebook(notebook)) {
+        return;
+      }
+
+      const selected = event.selections.flatMap(range => notebook.getCells(range));
+      const left = (selectedCells.get(notebook) ?? []).filter(cell => !selected.includes(cell));
+      selectedCells.set(notebook, selected);
+      void updateCellLanguages(left);
+    }),
+    workspace.onDidCloseNotebookDocument(notebook => selectedCells.delete(notebook)),
+    languages.registerCodeActionsProvider(
+      { scheme: 'vscode-notebook-cell', language: 'python' },
+      new MagicLineActionProvider(),
+      { providedCodeActionKinds: [CodeActionKind.QuickFix] }
+    ),
+    workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('databricksNotebook.magicCells')) {
+        const notebooks = workspace.notebookDocuments.filter(isDatabricksNotebook);
+        void updateCellLanguages(notebooks.flatMap(notebook => notebook.getCells()));
+      }
+    })
+  );
+}
+
+/**
+ * Give each code cell the language its leading magic calls for
+ */
+async function updateCellLanguages(cells: NotebookCell[]): Promise<void> {
+  const { magicCells } = getSettings();
+
+  for (const cell of cells) {
+    const { document } = cell;
+    if (cell.kind !== NotebookCellKind.Code || document.isClosed) {
+      continue;
+    }
+
+    const language = getAnalysisLanguage(document.languageId, document.getText(), magicCells);
+    if (language !== document.languageId) {
+      await languages.setTextDocumentLanguage(document, language);
+    }
+  }
+}
+
+/**
+ * Offers to move the `magicCells` magic lines of a Python cell to cells of
+ * their own, where they get MAGIC_LANGUAGE and the Python around them keeps
+ * being analysed
+ */
+class MagicLineActionProvider implements CodeActionProvider {
+  provideCodeActions(document: TextDocument, range: Range): CodeAction[] {
+    const { magicCells } = getSettings();
+    const lines = Array.from({ length: range.end.line - range.start.line + 1 }, (_, i) => range.start.line + i);
+    if (!lines.some(line => isMagicLine(document.lineAt(line).text, magicCells))) {
+      return [];
+    }
+
+    const cell = findCell(document);
+    const sources = splitMagicLines(document.getText(), magicCells);
+    if (!cell || sources.length < 2) {
+      return [];
+    }
+
+    const cells = sources.map((source, index) => {
+      const data = new NotebookCellData(
+        NotebookCellKind.Code,
+        source,
+        getAnalysisLanguage('python', source, magicCells)
+      );
+      // The first cell takes the place (and the metadata) of the split cell
+      if (index === 0) {
+        data.metadata = cell.metadata;
+      }
+      return data;
+    });
+
+    const action = new CodeAction('Move magic lines to their own cells', CodeActionKind.QuickFix);
+    action.edit = new WorkspaceEdit();
+    action.edit.set(cell.notebook.uri, [
+      NotebookEdit.replaceCells(new NotebookRange(cell.index, cell.index + 1), cells),
+    ]);
+    return [action];
+  }
+}
+
+/**
+ * Code cell of a Databricks notebook that a document belongs to
+ */
+function findCell(document: TextDocument): NotebookCell | undefined {
+  return workspace.notebookDocuments
+    .filter(isDatabricksNotebook)
+    .flatMap(notebook => notebook.getCells())
+    .find(cell => cell.document === document && cell.kind === NotebookCellKind.Code);
+}
@@ -0,0 +1,99 @@
+/**
+ * Helpers for keeping IPython magic cells away from Python language servers.
+ *
+ * Pyright and Pylance analyse every Python cell, and report errors for
+ * cells with magics (`%run ./helpers`, `%fs ls /mnt`) because magics aren't
+ * Python. Cells holding nothing but magics are given their own language so
+ * the language servers skip them; they still run in the Python kernel and
+ * are saved as Python cells. Magic lines in a cell that also has Python
+ * keep the cell Python, and can be moved to cells of their own
+ * (splitMagicLines).
+ */
+
+/**
+ * VS Code language of Python cells holding only `magicCells` magics
+ * (contributed in package.json)
+ */
+export const MAGIC_LANGUAGE = 'databricks-magic';
+
+/**
+ * Magics whose cells get MAGIC_LANGUAGE by default.
+ * `%pip`, `%sql`, `%sh`, `%r` and `%scala` cells already get a language of their own.
+ */
+export const DEFAULT_MAGIC_CELLS: readonly string[] = ['run', 'fs', 'conda', 'restart_python', 'md-sandbox'];
+
+/**
+ * Magics whose cell body belongs to the magic (e.g. HTML), not to Python
+ */
+const BODY_MAGICS = new Set(['md-sandbox']);
+
+/** `%name` or `%%name` at the start of a line */
+const LEADING_MAGIC_REGEX = /^%{1,2}([\w-]+)/;
+
+/**
+ * Name of the magic a cell starts with (without `%`), if any
+ */
+export function getLeadingMagic(source: string): string | undefined {
+  const firstLine = source.split('\n')[0]?.trim() ?? '';
+  return LEADING_MAGIC_REGEX.exec(firstLine)?.[1];
+}
+
+/**
+ * Whether a line is one of the magics listed in `magicCells`. Indented
+ * magics are part of a Python block and don't count.
+ */
+export function isMagicLine(line: string, magicCells: readonly string[]): boolean {
+  const magic = LEADING_MAGIC_REGEX.exec(line)?.[1];
+  return magic !== undefined && magicCells.includes(magic);
+}
+
+/**
+ * Whether a cell starts with one of the magics listed in `magicCells` and
+ * has no Python after it: every other line is blank or such a magic too,
+ * unless the magic takes the whole cell (`%md-sandbox`)
+ */
+export function isMagicCell(source: string, magicCells: readonly string[]): boolean {
+  const magic = getLeadingMagic(source);
+  if (magic === undefined || !magicCells.includes(magic)) {
+    return false;
+  }
+
+  const rest = source.trim().split('\n').slice(1);
+  return BODY_MAGICS.has(magic) || rest.every(line => line.trim() === '' || isMagicLine(line, magicCells));
+}
+
+/**
+ * Split a Python cell's source around its `magicCells` magic lines, giving
+ * the sources of the cells to replace it with: runs of magic lines become
+ * magic cells, and the Python between them stays in Python cells. Blank
+ * lines stay with the lines before them and are trimmed at cell edges.
+ */
+export function splitMagicLines(source: string, magicCells: readonly string[]): string[] {
+  const parts: { magic: boolean; lines: string[] }[] = [];
+  for (const line of source.split('\n')) {
+    const magic = isMagicLine(line, magicCells);
+    const last = parts[parts.length - 1];
+    if (last && (last.magic === magic || line.trim() === '')) {
+      last.lines.push(line);
+    } else {
+      parts.push({ magic, lines: [line] });
+    }
+  }
+  return parts.map(part => part.lines.join('\n').trim()).filter(part => part !== '');
+}
+
+/**
+ * VS Code language a code cell should have: Python cells holding only
+ * magics from `magicCells` move to MAGIC_LANGUAGE, and move back to Python
+ * once they have Python again. Cells in other languages keep theirs.
+ */
+export function getAnalysisLanguage(languageId: string, source: string, magicCells: readonly string[]): string {
+  const magicCell = isMagicCell(source, magicCells);
+  if (languageId === 'python' && magicCell) {
+    return MAGIC_LANGUAGE;
+  }
+  if (languageId === MAGIC_LANGUAGE && !magicCell) {
+    return 'python';
+  }
+  return languageId;
+}
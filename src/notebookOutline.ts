@@ -0,0 +1,102 @@
+import {
+  DocumentSymbol,
+  DocumentSymbolProvider,
+  ExtensionContext,
+  NotebookCellData,
+  NotebookCellKind,
+  NotebookEdit,
+  NotebookRange,
+  Range,
+  SymbolKind,
+  TextDocument,
+  WorkspaceEdit,
+  commands,
+  languages,
+  window,
+  workspace,
+} from 'vscode';
+import { isDatabricksNotebook } from './cellMetadata';
+import { OutlineItem, buildTableOfContents, getNotebookOutline, isTableOfContents } from './outline';
+import { startsWithDatabricksHeader } from './parser';
+
+/**
+ * Shows the headings and cells of Databricks .py files in the Outline view
+ * and breadcrumbs
+ */
+class NotebookSymbolProvider implements DocumentSymbolProvider {
+  provideDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+    const content = document.getText();
+    if (!startsWithDatabricksHeader(content)) {
+      return [];
+    }
+    return getNotebookOutline(content).map(item => toSymbol(document, item));
+  }
+}
+
+/**
+ * Convert an outline entry (and its children) to a document symbol
+ */
+function toSymbol(document: TextDocument, item: OutlineItem): DocumentSymbol {
+  const lastLine = document.lineCount - 1;
+  const endLine = Math.min(lastLine, Math.max(item.startLine, item.endLine - 1));
+  const fullRange = new Range(item.startLine, 0, endLine, document.lineAt(endLine).text.length);
+  const selection = document.lineAt(Math.min(lastLine, item.line)).range;
+
+  const symbol = new DocumentSymbol(
+    item.name,
+    item.detail ?? '',
+    item.kind === 'heading' ? SymbolKind.String : SymbolKind.Object,
+    fullRange,
+    selection
+  );
+  symbol.children = item.children.map(child => toSymbol(document, child));
+  return symbol;
+}
+
+/**
+ * Insert a markdown cell listing the notebook's headings at the top of the
+ * active notebook, or update the one generated before
+ */
+async function generateTableOfContents(): Promise<void> {
+  const editor = window.activeNotebookEditor;
+  if (!editor || !isDatabricksNotebook(editor.notebook)) {
+    return;
+  }
+
+  const cells = editor.notebook.getCells();
+  const toc = buildTableOfContents(
+    cells.map(cell => ({
+      source: cell.document.getText(),
+      cellKind: cell.kind === NotebookCellKind.Markup ? 'markup' : 'code',
+    }))
+  );
+  if (toc === undefined) {
+    void window.showInformationMessage('No markdown headings to list in a table of contents');
+    return;
+  }
+
+  const existing = cells.find(cell => cell.kind === NotebookCellKind.Markup && isTableOfContents(cell.document.getText()));
+  const index = existing?.index ?? 0;
+  const data = new NotebookCellData(NotebookCellKind.Markup, toc, 'markdown');
+  if (existing) {
+    data.metadata = existing.metadata;
+  }
+
+  const edit = new WorkspaceEdit();
+  edit.set(editor.notebook.uri, [
+    NotebookEdit.replaceCells(new NotebookRange(index, existing ? index + 1 : index), [data]),
+  ]);
+  await workspace.applyEdit(edit);
+}
+
+/**
+ * Register the outline of Databricks .py files and the table of contents command
+ */
+export function registerNotebookOutline(context: ExtensionContext): void {
+  context.subscriptions.push(
+    languages.registerDocumentSymbolProvider({ language: 'python' }, new NotebookSymbolProvider(), {
+      label: 'Databricks Notebook',
+    }),
+    commands.registerCommand('databricks.generateTableOfContents', generateTableOfContents)
+  );
+}
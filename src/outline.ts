@@ -0,0 +1,196 @@
+/**
+ * Outline of a notebook: the headings of its markdown cells, nested by
+ * level, with the code cells under the heading they follow. Also builds the
+ * markdown for a table of contents cell.
+ */
+
+import { parseNotebook } from './parser';
+import { ParsedCell } from './types';
+
+/**
+ * A markdown heading in cell source
+ */
+export interface MarkdownHeading {
+  /** 1 for `#`, 2 for `##`, ... */
+  level: number;
+  text: string;
+  /** Line in the source (0-indexed) */
+  line: number;
+}
+
+/**
+ * An entry of the notebook outline
+ */
+export interface OutlineItem {
+  name: string;
+  kind: 'heading' | 'cell';
+  /** Language of a code cell */
+  detail?: string;
+  /** File line the entry is shown at (0-indexed) */
+  line: number;
+  /** First file line covered by the entry (0-indexed) */
+  startLine: number;
+  /** File line just after the entry, including its children */
+  endLine: number;
+  children: OutlineItem[];
+}
+
+/** ATX heading (`## Title`, optionally closed with `#`s) */
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+
+/** Start or end of a fenced code block */
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/** Heading of a generated table of contents cell */
+const TOC_HEADING = '## Table of Contents';
+
+/** Longest code cell name before it is cut short */
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * Find the headings in markdown source, skipping fenced code blocks
+ */
+export function findHeadings(source: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let inFence = false;
+
+  source.split('\n').forEach((text, line) => {
+    if (FENCE_REGEX.test(text)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = inFence ? null : HEADING_REGEX.exec(text);
+    if (match) {
+      headings.push({ level: match[1]?.length ?? 1, text: match[2] ?? '', line });
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Markdown text of a line in a .py file: without the `# MAGIC ` prefix
+ * (Databricks) or `# ` comment (percent format), and without a `%md` magic
+ */
+function toMarkdownLine(line: string): string {
+  const content = line.startsWith('# MAGIC') ? line.replace(/^# MAGIC ?/, '') : line.replace(/^# ?/, '');
+  return content.replace(/^%md(?:-sandbox)?\b\s*/, '');
+}
+
+/**
+ * Outline name of a code cell: its title, or its first non-blank line
+ */
+function getCellName(cell: ParsedCell): string {
+  const firstLine = cell.title ?? cell.source.split('\n').find(line => line.trim() !== '')?.trim() ?? '';
+  if (firstLine === '') {
+    return 'Empty cell';
+  }
+  return firstLine.length > MAX_NAME_LENGTH ? `${firstLine.slice(0, MAX_NAME_LENGTH - 1)}…` : firstLine;
+}
+
+/**
+ * Build the outline of a notebook file. Headings nest by level, code cells
+ * are listed under the heading before them, and markdown cells without
+ * headings are left out.
+ */
+export function getNotebookOutline(content: string): OutlineItem[] {
+  const fileLines = content.split(/\r?\n/);
+  const roots: OutlineItem[] = [];
+  const stack: { level: number; item: OutlineItem }[] = [];
+
+  const add = (item: OutlineItem, level: number): void => {
+    while (stack.length > 0 && (stack[stack.length - 1]?.level ?? 0) >= level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1]?.item;
+    (parent ? parent.children : roots).push(item);
+    if (item.kind === 'heading') {
+      stack.push({ level, item });
+    }
+  };
+
+  for (const cell of parseNotebook(content).cells) {
+    if (cell.cellKind === 'markup') {
+      const markdown = fileLines.slice(cell.startLine, cell.endLine).map(toMarkdownLine).join('\n');
+      const headings = findHeadings(markdown);
+      headings.forEach((heading, index) => {
+        const line = cell.startLine + heading.line;
+        const next = headings[index + 1];
+        const endLine = next ? cell.startLine + next.line : cell.endLine;
+        add({ name: heading.text, kind: 'heading', line, startLine: line, endLine, children: [] }, heading.level);
+      });
+    } else {
+      add(
+        {
+          name: getCellName(cell),
+          kind: 'cell',
+          detail: cell.languageId,
+          line: cell.startLine,
+          startLine: cell.startLine,
+          endLine: cell.endLine,
+          children: [],
+        },
+        Infinity
+      );
+    }
+  }
+
+  roots.forEach(extendToChildren);
+  return roots;
+}
+
+/**
+ * Make an entry's range cover its children
+ */
+function extendToChildren(item: OutlineItem): void {
+  item.children.forEach(extendToChildren);
+  const last = item.children[item.children.length - 1];
+  if (last) {
+    item.endLine = Math.max(item.endLine, last.endLine);
+  }
+}
+
+/**
+ * Whether a markdown cell is a generated table of contents
+ */
+export function isTableOfContents(source: string): boolean {
+  return source.split('\n', 1)[0]?.trim() === TOC_HEADING;
+}
+
+/**
+ * Anchor of a heading, as generated for markdown previews (`Load data` → `load-data`)
+ */
+export function getHeadingAnchor(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Markdown for a table of contents cell listing the headings of the
+ * markdown cells, indented by level. An existing table of contents cell is
+ * skipped. Returns undefined when there are no headings.
+ */
+export function buildTableOfContents(cells: Pick<ParsedCell, 'source' | 'cellKind'>[]): string | undefined {
+  const headings = cells
+    .filter(cell => cell.cellKind === 'markup' && !isTableOfContents(cell.source))
+    .flatMap(cell => findHeadings(cell.source));
+  if (headings.length === 0) {
+    return undefined;
+  }
+
+  const topLevel = Math.min(...headings.map(heading => heading.level));
+  const anchors = new Map<string, number>();
+  const entries = headings.map(heading => {
+    // Repeated headings get numbered anchors (`setup`, `setup-1`, ...)
+    const anchor = getHeadingAnchor(heading.text);
+    const count = anchors.get(anchor) ?? 0;
+    anchors.set(anchor, count + 1);
+    const indent = '  '.repeat(heading.level - topLevel);
+    return `${indent}- [${heading.text}](#${count > 0 ? `${anchor}-${count}` : anchor})`;
+  });
+
+  return [TOC_HEADING, '', ...entries].join('\n');
+}
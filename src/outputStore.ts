@@ -0,0 +1,96 @@
+/**
+ * Persistence helpers for cell outputs.
+ *
+ * The .py file cannot hold outputs, so they are stored in a separate JSON
+ * file and matched back to cells by content rather than by position. This
+ * keeps outputs attached to their cells when cells are inserted, removed or
+ * reordered, and drops them once a cell's code changes.
+ */
+
+import { hashContent } from './hash';
+import { CellOutputStore, ParsedCell, StoredCellOutput } from './types';
+
+/**
+ * Compute identity keys for a list of cells.
+ *
+ * The key is a hash of the cell's language and trimmed source. Identical
+ * cells get an occurrence suffix so each one keeps its own outputs.
+ */
+export function getCellKeys(cells: Pick<ParsedCell, 'source' | 'languageId'>[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return cells.map(cell => {
+    const hash = hashContent(`${cell.languageId}\n${cell.source.trim()}`);
+    const count = occurrences.get(hash) ?? 0;
+    occurrences.set(hash, count + 1);
+    return `${hash}-${count}`;
+  });
+}
+
+/**
+ * Create an empty output store
+ */
+export function createOutputStore(): CellOutputStore {
+  return { version: 1, cells: {} };
+}
+
+/**
+ * Whether the store holds any outputs worth writing to disk
+ */
+export function hasStoredOutputs(store: CellOutputStore): boolean {
+  return Object.keys(store.cells).length > 0;
+}
+
+/**
+ * Parse a stored output file, returning an empty store for missing or invalid content
+ */
+export function parseOutputStore(content: string): CellOutputStore {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return createOutputStore();
+  }
+
+  if (!isRecord(data) || data.version !== 1 || !isRecord(data.cells)) {
+    return createOutputStore();
+  }
+
+  const store = createOutputStore();
+  for (const [key, value] of Object.entries(data.cells)) {
+    if (isRecord(value) && Array.isArray(value.outputs)) {
+      const executionCount = typeof value.execution_count === 'number' ? value.execution_count : null;
+      store.cells[key] = { execution_count: executionCount, outputs: value.outputs };
+    }
+  }
+  return store;
+}
+
+/**
+ * Serialize an output store for writing to disk
+ */
+export function serializeOutputStore(store: CellOutputStore): string {
+  return JSON.stringify(store, null, 1) + '\n';
+}
+
+/**
+ * Look up the stored outputs for a cell key
+ */
+export function getStoredOutput(
+  store: CellOutputStore | undefined,
+  key: string
+): StoredCellOutput | undefined {
+  return store?.cells[key];
+}
+
+/**
+ * Name of the sidecar output file for a notebook file name
+ * (e.g. `notebook.py` → `.notebook.py.outputs.json`)
+ */
+export function getSidecarFileName(fileName: string): string {
+  return `.${fileName}.outputs.json`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
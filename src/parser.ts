@@ -3,37 +3,138 @@ import {
   ParsedNotebook,
   NotebookFormat,
   CellLanguage,
+  ParseWarning,
+  TextStyle,
   MARKERS,
   MAGIC_PATTERNS,
 } from './types';
+import { findWidgets } from './widgets';
 
 /**
  * Parse a .py file into notebook cells
  */
 export function parseNotebook(content: string): ParsedNotebook {
+  // Cells are parsed from LF text without a BOM; the serializer puts both back
+  const textStyle = detectTextStyle(content);
+  const warnings = checkTextStyle(content, textStyle);
+  content = normalizeText(content);
+
   const lines = content.split('\n');
   const format = detectFormat(lines);
-  const hasDatabricksHeader = lines[0]?.trim() === MARKERS.DATABRICKS_HEADER;
+  const hasDatabricksHeader = startsWithDatabricksHeader(content);
 
   if (format === 'plain') {
-    return {
-      cells: [{
-        source: content,
-        cellKind: 'code',
-        languageId: 'python',
-        startLine: 0,
-        endLine: lines.length,
-      }],
-      format,
-      hasDatabricksHeader: false,
-    };
+    const cells: ParsedCell[] = [{
+      source: content,
+      cellKind: 'code',
+      languageId: 'python',
+      startLine: 0,
+      endLine: lines.length,
+    }];
+    return { cells, format, hasDatabricksHeader: false, textStyle, widgets: findWidgets(cells), warnings };
+  }
+
+  if (format === 'databricks') {
+    const { cells, preamble } = parseDatabricksFormat(lines, hasDatabricksHeader, warnings);
+    return { cells, format, hasDatabricksHeader, preamble, textStyle, widgets: findWidgets(cells), warnings };
+  }
+
+  const cells = parsePercentFormat(lines);
+  return { cells, format, hasDatabricksHeader, textStyle, widgets: findWidgets(cells), warnings };
+}
+
+/** UTF-8 byte order mark, as decoded into a string */
+const BOM = '\uFEFF';
+
+/**
+ * Detect the line endings, BOM and final newline of file content. Empty
+ * files get a final newline, as new files should.
+ */
+export function detectTextStyle(content: string): TextStyle {
+  const crlfCount = content.split('\r\n').length - 1;
+  const lfCount = content.split('\n').length - 1 - crlfCount;
+  const bom = content.startsWith(BOM);
+
+  return {
+    eol: crlfCount > lfCount ? 'crlf' : 'lf',
+    bom,
+    finalNewline: content.length === (bom ? 1 : 0) || content.endsWith('\n'),
+  };
+}
+
+/**
+ * Warn about a BOM, which Databricks doesn't expect before the notebook
+ * header, and about mixed line endings, which saving makes uniform
+ */
+function checkTextStyle(content: string, style: TextStyle): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+
+  if (style.bom) {
+    warnings.push({
+      code: 'bom',
+      message: 'File starts with a UTF-8 byte order mark, which Databricks may not expect; it is kept on save',
+      line: 0,
+    });
+  }
+
+  // The last piece has no line ending of its own
+  const lines = content.split('\n').slice(0, -1);
+  const minority = lines.findIndex(line => line.endsWith('\r') !== (style.eol === 'crlf'));
+  if (minority !== -1) {
+    warnings.push({
+      code: 'mixed-line-endings',
+      message: `File mixes CRLF and LF line endings; all of them are saved as ${style.eol.toUpperCase()}`,
+      line: minority,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Strip the BOM and convert CRLF line endings to LF
+ */
+function normalizeText(content: string): string {
+  const withoutBom = content.startsWith(BOM) ? content.slice(BOM.length) : content;
+  return withoutBom.replace(/\r\n/g, '\n');
+}
+
+/**
+ * Give serialized LF text the line endings, BOM and final newline of a text style
+ */
+function applyTextStyle(content: string, style: TextStyle): string {
+  let result = content;
+
+  if (style.finalNewline && result !== '' && !result.endsWith('\n')) {
+    result += '\n';
+  } else if (!style.finalNewline && result.endsWith('\n')) {
+    result = result.slice(0, -1);
   }
 
-  const cells = format === 'databricks'
-    ? parseDatabricksFormat(lines, hasDatabricksHeader)
-    : parsePercentFormat(lines);
+  if (style.eol === 'crlf') {
+    result = result.replace(/\r?\n/g, '\r\n');
+  }
+
+  return style.bom ? BOM + result : result;
+}
+
+/**
+ * Whether content starts with the `# Databricks notebook source` header
+ */
+export function startsWithDatabricksHeader(content: string): boolean {
+  const firstLine = content.split('\n', 1)[0] ?? '';
+  return firstLine.trim() === MARKERS.DATABRICKS_HEADER;
+}
 
-  return { cells, format, hasDatabricksHeader };
+/**
+ * Convert notebook content to another format, keeping cell languages and titles
+ */
+export function convertNotebook(
+  content: string,
+  format: Exclude<NotebookFormat, 'plain'>
+): string {
+  const parsed = parseNotebook(content);
+  return serializeNotebook(parsed.cells, format, true, { textStyle: parsed.textStyle });
 }
 
 /**
@@ -55,7 +156,7 @@ function detectFormat(lines: string[]): NotebookFormat {
 
   // Check for percent format markers
   for (const line of lines) {
-    if (line.trim().startsWith(MARKERS.PERCENT_CELL)) {
+    if (MARKERS.PERCENT_CELL_REGEX.test(line.trim())) {
       return 'percent';
     }
   }
@@ -65,14 +166,38 @@ function detectFormat(lines: string[]): NotebookFormat {
 
 /**
  * Parse Databricks format notebook
+ *
+ * Besides the cells, this returns the original text before the first cell
+ * (header and blank lines) so unchanged notebooks can be written back exactly.
  */
-function parseDatabricksFormat(lines: string[], hasDatabricksHeader: boolean): ParsedCell[] {
+function parseDatabricksFormat(
+  lines: string[],
+  hasDatabricksHeader: boolean,
+  warnings: ParseWarning[]
+): { cells: ParsedCell[]; preamble?: string } {
   const cells: ParsedCell[] = [];
   let currentCellLines: string[] = [];
   let cellStartLine = hasDatabricksHeader ? 1 : 0;
+  const preambleLines: string[] = hasDatabricksHeader ? [lines[0] ?? ''] : [];
 
   // Skip header line if present
   const startIndex = hasDatabricksHeader ? 1 : 0;
+  // Start of the current cell's raw text (its delimiter line, if any)
+  let segmentStart = startIndex;
+
+  // Attach a cell's raw text, or fold it into the previous cell (or the
+  // preamble) when the cell is empty, so no original text is lost
+  const addSegment = (cell: ParsedCell | null, rawLines: string[]): void => {
+    const previous = cells[cells.length - 1];
+    if (cell) {
+      cell.raw = rawLines.join('\n');
+      cells.push(cell);
+    } else if (previous) {
+      previous.raw = [previous.raw ?? '', ...rawLines].join('\n');
+    } else {
+      preambleLines.push(...rawLines);
+    }
+  };
 
   for (let i = startIndex; i < lines.length; i++) {
     const line = lines[i];
@@ -80,28 +205,29 @@ function parseDatabricksFormat(lines: string[], hasDatabricksHeader: boolean): P
 
     if (MARKERS.DATABRICKS_CELL_REGEX.test(trimmedLine)) {
       // Save the previous cell if it has content
+      const rawLines = lines.slice(segmentStart, i);
       if (currentCellLines.length > 0 || cells.length > 0) {
-        const cell = createCellFromDatabricksLines(currentCellLines, cellStartLine, i);
-        if (cell) {
-          cells.push(cell);
-        }
+        addSegment(createCellFromDatabricksLines(currentCellLines, cellStartLine, i, warnings), rawLines);
+      } else {
+        preambleLines.push(...rawLines);
       }
       currentCellLines = [];
       cellStartLine = i + 1;
+      segmentStart = i;
     } else {
       currentCellLines.push(line ?? '');
     }
   }
 
   // Don't forget the last cell
+  const rawLines = lines.slice(segmentStart);
   if (currentCellLines.length > 0) {
-    const cell = createCellFromDatabricksLines(currentCellLines, cellStartLine, lines.length);
-    if (cell) {
-      cells.push(cell);
-    }
+    addSegment(createCellFromDatabricksLines(currentCellLines, cellStartLine, lines.length, warnings), rawLines);
+  } else if (rawLines.length > 0) {
+    addSegment(null, rawLines);
   }
 
-  return cells;
+  return { cells, preamble: preambleLines.length > 0 ? preambleLines.join('\n') : undefined };
 }
 
 /**
@@ -110,7 +236,8 @@ function parseDatabricksFormat(lines: string[], hasDatabricksHeader: boolean): P
 function createCellFromDatabricksLines(
   lines: string[],
   startLine: number,
-  endLine: number
+  endLine: number,
+  warnings: ParseWarning[]
 ): ParsedCell | null {
   // Trim leading/trailing empty lines
   while (lines.length > 0 && lines[0]?.trim() === '') {
@@ -126,18 +253,55 @@ function createCellFromDatabricksLines(
     return null;
   }
 
+  // Lift a `# DBTITLE 1,Title` line into the cell title
+  const titleMatch = MARKERS.DBTITLE_REGEX.exec(lines[0] ?? '');
+  if (titleMatch) {
+    const bodyLines = lines.slice(1);
+    while (bodyLines.length > 0 && bodyLines[0]?.trim() === '') {
+      bodyLines.shift();
+    }
+
+    const bodyStart = startLine + lines.length - bodyLines.length;
+    const cell = createCellBody(bodyLines, startLine, endLine, warnings, bodyStart) ?? {
+      source: '',
+      cellKind: 'code',
+      languageId: 'python',
+      startLine,
+      endLine,
+    };
+    cell.title = titleMatch[2] ?? '';
+    cell.titleFlag = Number(titleMatch[1]);
+    return cell;
+  }
+
+  return createCellBody(lines, startLine, endLine, warnings);
+}
+
+/**
+ * Create a cell from the trimmed content lines of a Databricks cell
+ *
+ * @param firstLine File line of `lines[0]`, for warnings (defaults to startLine)
+ */
+function createCellBody(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  warnings: ParseWarning[],
+  firstLine = startLine
+): ParsedCell | null {
+  if (lines.length === 0) {
+    return null;
+  }
+
   // Check if this is a MAGIC cell
-  // Handle both '# MAGIC ' (with trailing space) and '# MAGIC' (without trailing space for empty lines)
-  const isMagicCell = lines.every(line =>
-    line.startsWith(MARKERS.MAGIC_PREFIX) ||
-    line === '# MAGIC' ||
-    line.trim() === ''
-  );
+  const isMagicCell = lines.every(line => isMagicLine(line) || line.trim() === '');
 
   if (isMagicCell) {
-    return parseMagicCell(lines, startLine, endLine);
+    return parseMagicCell(lines, startLine, endLine, warnings, firstLine);
   }
 
+  checkStrayMagicLines(lines, firstLine, warnings);
+
   // Check for cell magic (%%sql, etc.)
   const firstNonEmpty = lines.find(l => l.trim() !== '');
   if (firstNonEmpty) {
@@ -166,13 +330,78 @@ function createCellFromDatabricksLines(
   };
 }
 
+/**
+ * Whether a line belongs to a MAGIC block
+ * Handles both '# MAGIC ' (with trailing space) and '# MAGIC' (without trailing space for empty lines)
+ */
+function isMagicLine(line: string): boolean {
+  return line.startsWith(MARKERS.MAGIC_PREFIX) || line === '# MAGIC';
+}
+
+/**
+ * Warn about `# MAGIC` lines in a cell that also has plain lines. Such a cell
+ * is treated as Python, so its magic never takes effect.
+ */
+function checkStrayMagicLines(lines: string[], firstLine: number, warnings: ParseWarning[]): void {
+  const firstMagic = lines.findIndex(isMagicLine);
+  if (firstMagic === -1) {
+    return;
+  }
+
+  const firstPlain = lines.findIndex(line => !isMagicLine(line) && line.trim() !== '');
+  const magicAfterPlain = lines.slice(firstPlain).some(isMagicLine);
+
+  if (firstMagic < firstPlain && !magicAfterPlain) {
+    warnings.push({
+      code: 'unterminated-magic',
+      message: 'MAGIC block runs into plain code without a `# COMMAND ----------` line; the cell is treated as Python',
+      line: firstLine + firstPlain,
+    });
+    return;
+  }
+
+  warnings.push({
+    code: 'mixed-magic',
+    message: 'Cell mixes `# MAGIC` lines with plain lines; the cell is treated as Python',
+    line: firstLine + firstMagic,
+  });
+}
+
+/**
+ * Databricks magics that are kept as Python cell content (besides the ones
+ * that set a cell language), and so are not reported as unknown
+ */
+const PASSTHROUGH_MAGICS = new Set(['python', 'run', 'fs', 'md-sandbox', 'conda']);
+
+/**
+ * MAGIC commands that switch a Databricks cell to another code language
+ */
+const CODE_MAGICS: { pattern: RegExp; language: CellLanguage }[] = [
+  { pattern: MAGIC_PATTERNS.SQL_MAGIC, language: 'sql' },
+  { pattern: MAGIC_PATTERNS.SHELL_MAGIC, language: 'shellscript' },
+  { pattern: MAGIC_PATTERNS.R_MAGIC, language: 'r' },
+  { pattern: MAGIC_PATTERNS.SCALA_MAGIC, language: 'scala' },
+];
+
+/**
+ * Magic command written for each non-Python code language in Databricks format
+ */
+const DATABRICKS_MAGIC_COMMANDS: Partial<Record<CellLanguage, string>> = {
+  sql: '%sql',
+  shellscript: '%sh',
+  r: '%r',
+  scala: '%scala',
+};
+
 /**
  * Parse a MAGIC cell (lines prefixed with # MAGIC)
  */
 function parseMagicCell(
   lines: string[],
   startLine: number,
-  endLine: number
+  endLine: number,
+  warnings: ParseWarning[],
+  firstLine: number
 ): ParsedCell {
   // Strip MAGIC prefix from each line
   // Handle both '# MAGIC ' (with trailing space) and '# MAGIC' (without trailing space for empty lines)
@@ -207,36 +436,23 @@ function parseMagicCell(
       };
     }
 
-    if (MAGIC_PATTERNS.SQL_MAGIC.test(firstContent)) {
-      const contentLines = strippedLines.map((line, i) => {
-        if (i === strippedLines.indexOf(firstContent)) {
-          return line.replace(MAGIC_PATTERNS.SQL_MAGIC, '').trim();
-        }
-        return line;
-      });
-      return {
-        source: contentLines.join('\n').trim(),
-        cellKind: 'code',
-        languageId: 'sql',
-        startLine,
-        endLine,
-      };
-    }
-
-    if (MAGIC_PATTERNS.SHELL_MAGIC.test(firstContent)) {
-      const contentLines = strippedLines.map((line, i) => {
-        if (i === strippedLines.indexOf(firstContent)) {
-          return line.replace(MAGIC_PATTERNS.SHELL_MAGIC, '').trim();
-        }
-        return line;
-      });
-      return {
-        source: contentLines.join('\n').trim(),
-        cellKind: 'code',
-        languageId: 'shellscript',
-        startLine,
-        endLine,
-      };
+    // Code magics - strip the magic command and keep the body
+    for (const { pattern, language } of CODE_MAGICS) {
+      if (pattern.test(firstContent)) {
+        const contentLines = strippedLines.map((line, i) => {
+          if (i === strippedLines.indexOf(firstContent)) {
+            return line.replace(pattern, '').trim();
+          }
+          return line;
+        });
+        return {
+          source: contentLines.join('\n').trim(),
+          cellKind: 'code',
+          languageId: language,
+          startLine,
+          endLine,
+        };
+      }
     }
 
     // %pip magic - keep the full command in output (don't strip %pip)
@@ -252,6 +468,15 @@ function parseMagicCell(
   }
 
   // Default to python for unknown magic
+  const magicName = /^%([\w-]+)/.exec(firstContent?.trim() ?? '')?.[1];
+  if (magicName !== undefined && !PASSTHROUGH_MAGICS.has(magicName)) {
+    warnings.push({
+      code: 'unknown-magic',
+      message: `Unknown magic \`%${magicName}\`; the cell is treated as Python`,
+      line: firstLine + strippedLines.findIndex(line => line.trim() !== ''),
+    });
+  }
+
   return {
     source: strippedLines.join('\n'),
     cellKind: 'code',
@@ -277,6 +502,12 @@ function detectCellMagic(line: string): { language: CellLanguage } | null {
   if (MAGIC_PATTERNS.CELL_MAGIC_SHELL.test(trimmed)) {
     return { language: 'shellscript' };
   }
+  if (MAGIC_PATTERNS.CELL_MAGIC_R.test(trimmed)) {
+    return { language: 'r' };
+  }
+  if (MAGIC_PATTERNS.CELL_MAGIC_SCALA.test(trimmed)) {
+    return { language: 'scala' };
+  }
 
   // Single-percent line magics at start of cell (%sql)
   // These indicate the user wants this cell to be treated as that language
@@ -289,6 +520,12 @@ function detectCellMagic(line: string): { language: CellLanguage } | null {
   if (MAGIC_PATTERNS.LINE_MAGIC_PIP.test(trimmed)) {
     return { language: 'shellscript' };
   }
+  if (MAGIC_PATTERNS.LINE_MAGIC_R.test(trimmed)) {
+    return { language: 'r' };
+  }
+  if (MAGIC_PATTERNS.LINE_MAGIC_SCALA.test(trimmed)) {
+    return { language: 'scala' };
+  }
   if (MAGIC_PATTERNS.LINE_MAGIC_MARKDOWN.test(trimmed)) {
     return { language: 'markdown' };
   }
@@ -303,8 +540,7 @@ function parsePercentFormat(lines: string[]): ParsedCell[] {
   const cells: ParsedCell[] = [];
   let currentCellLines: string[] = [];
   let cellStartLine = 0;
-  let currentCellType: 'code' | 'markup' = 'code';
-  let currentLanguage: CellLanguage = 'python';
+  let currentHeader: PercentCellHeader = {};
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i] ?? '';
@@ -313,28 +549,15 @@ function parsePercentFormat(lines: string[]): ParsedCell[] {
     if (match) {
       // Save previous cell if it has content
       if (currentCellLines.length > 0) {
-        cells.push({
-          source: currentCellLines.join('\n').trim(),
-          cellKind: currentCellType,
-          languageId: currentLanguage,
-          startLine: cellStartLine,
-          endLine: i,
-        });
+        cells.push(createPercentCell(currentCellLines, currentHeader, cellStartLine, i));
       }
 
       // Start new cell
       currentCellLines = [];
       cellStartLine = i + 1;
 
-      // Check for metadata like [markdown]
-      const metadata = match[1]?.toLowerCase();
-      if (metadata === 'markdown' || metadata === 'md') {
-        currentCellType = 'markup';
-        currentLanguage = 'markdown';
-      } else {
-        currentCellType = 'code';
-        currentLanguage = 'python';
-      }
+      // Parse the title, [cell type] and key=value metadata after '# %%'
+      currentHeader = parsePercentHeader(match[1] ?? '');
     } else {
       currentCellLines.push(line);
     }
@@ -342,25 +565,279 @@ function parsePercentFormat(lines: string[]): ParsedCell[] {
 
   // Don't forget the last cell
   if (currentCellLines.length > 0) {
-    cells.push({
-      source: currentCellLines.join('\n').trim(),
-      cellKind: currentCellType,
-      languageId: currentLanguage,
-      startLine: cellStartLine,
-      endLine: lines.length,
-    });
+    cells.push(createPercentCell(currentCellLines, currentHeader, cellStartLine, lines.length));
   }
 
   return cells;
 }
 
+/**
+ * Parsed `# %% Title [type] key=value` cell marker
+ */
+interface PercentCellHeader {
+  title?: string;
+  cellType?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Languages that can be given as the `[type]` of a percent cell
+ */
+const PERCENT_CELL_LANGUAGES: Record<string, CellLanguage> = {
+  python: 'python',
+  sql: 'sql',
+  sh: 'shellscript',
+  bash: 'shellscript',
+  shellscript: 'shellscript',
+  r: 'r',
+  scala: 'scala',
+};
+
+/**
+ * Commented cell magic written at the top of non-Python cells in percent format,
+ * matching what jupytext writes for cells that start with a cell magic
+ */
+const PERCENT_CELL_MAGICS: Partial<Record<CellLanguage, string>> = {
+  sql: '%%sql',
+  shellscript: '%%bash',
+  r: '%%R',
+  scala: '%%scala',
+};
+
+/**
+ * Parse the text after `# %%`: an optional title, an optional `[type]` and
+ * `key=value` metadata (values are JSON when they parse as JSON)
+ */
+function parsePercentHeader(text: string): PercentCellHeader {
+  const header: PercentCellHeader = {};
+  let titleText = text;
+  let metadataText = '';
+
+  const typeMatch = /(^|\s)\[(\w+)\](?=\s|$)/.exec(text);
+  const metadataMatch = /(^|\s)[\w.-]+=/.exec(text);
+
+  if (typeMatch) {
+    header.cellType = typeMatch[2]?.toLowerCase();
+    titleText = text.slice(0, typeMatch.index);
+    metadataText = text.slice(typeMatch.index + typeMatch[0].length);
+  } else if (metadataMatch) {
+    titleText = text.slice(0, metadataMatch.index);
+    metadataText = text.slice(metadataMatch.index);
+  }
+
+  const title = titleText.trim();
+  if (title) {
+    header.title = title;
+  }
+
+  const metadata = parsePercentMetadata(metadataText);
+  if (Object.keys(metadata).length > 0) {
+    header.metadata = metadata;
+  }
+
+  return header;
+}
+
+/**
+ * Parse `key=value` pairs, where values may be quoted strings or JSON objects/arrays
+ */
+function parsePercentMetadata(text: string): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  let i = 0;
+
+  while (i < text.length) {
+    while (i < text.length && /\s/.test(text[i] ?? '')) {
+      i++;
+    }
+
+    const keyMatch = /^([\w.-]+)=/.exec(text.slice(i));
+    if (!keyMatch?.[1]) {
+      break;
+    }
+    i += keyMatch[0].length;
+
+    // Scan to the end of the value, skipping whitespace inside strings and brackets
+    const valueStart = i;
+    let depth = 0;
+    let quote: string | null = null;
+    for (; i < text.length; i++) {
+      const char = text[i] ?? '';
+      if (quote) {
+        if (char === '\\') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+      } else if (depth <= 0 && /\s/.test(char)) {
+        break;
+      }
+    }
+
+    const rawValue = text.slice(valueStart, i);
+    try {
+      metadata[keyMatch[1]] = JSON.parse(rawValue);
+    } catch {
+      metadata[keyMatch[1]] = rawValue;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Create a cell from the lines of a percent format cell
+ */
+function createPercentCell(
+  lines: string[],
+  header: PercentCellHeader,
+  startLine: number,
+  endLine: number
+): ParsedCell {
+  const cell = createPercentCellBody(lines, header.cellType, startLine, endLine);
+  if (header.title !== undefined) {
+    cell.title = header.title;
+  }
+  if (header.metadata) {
+    cell.metadata = header.metadata;
+  }
+  return cell;
+}
+
+/**
+ * Determine the kind, language and source of a percent format cell
+ */
+function createPercentCellBody(
+  lines: string[],
+  cellType: string | undefined,
+  startLine: number,
+  endLine: number
+): ParsedCell {
+  // Markdown and raw cells are commented out so the file stays valid Python
+  if (cellType === 'markdown' || cellType === 'md') {
+    return {
+      source: uncommentIfCommented(lines).join('\n').trim(),
+      cellKind: 'markup',
+      languageId: 'markdown',
+      startLine,
+      endLine,
+    };
+  }
+
+  if (cellType === 'raw') {
+    return {
+      source: uncommentIfCommented(lines).join('\n').trim(),
+      cellKind: 'code',
+      languageId: 'raw',
+      startLine,
+      endLine,
+    };
+  }
+
+  const taggedLanguage = cellType !== undefined ? PERCENT_CELL_LANGUAGES[cellType] : undefined;
+  if (taggedLanguage && taggedLanguage !== 'python') {
+    return {
+      source: uncommentIfCommented(lines).join('\n').trim(),
+      cellKind: 'code',
+      languageId: taggedLanguage,
+      startLine,
+      endLine,
+    };
+  }
+
+  // A commented cell magic (# %%sql) means the whole cell is commented out
+  const firstContent = lines.find(l => l.trim() !== '') ?? '';
+  const firstMagic = uncommentMagic(firstContent);
+  const cellMagic = firstMagic.startsWith('%%') ? detectCellMagic(firstMagic) : null;
+  if (cellMagic && cellMagic.language !== 'python') {
+    const bodyLines = uncommentIfCommented(lines.slice(lines.indexOf(firstContent) + 1));
+    return {
+      source: bodyLines.join('\n').trim(),
+      cellKind: 'code',
+      languageId: cellMagic.language,
+      startLine,
+      endLine,
+    };
+  }
+
+  // Line magics (# %pip install, # %run) are commented out individually
+  const source = lines.map(uncommentMagic).join('\n').trim();
+  return {
+    source,
+    cellKind: 'code',
+    languageId: MAGIC_PATTERNS.PIP_MAGIC.test(source) ? 'shellscript' : 'python',
+    startLine,
+    endLine,
+  };
+}
+
+/**
+ * Uncomment a commented IPython magic line (`# %pip install x` → `%pip install x`)
+ */
+function uncommentMagic(line: string): string {
+  return /^# %{1,2}[a-zA-Z_]/.test(line) ? line.slice(2) : line;
+}
+
+/**
+ * Remove '# ' comment prefixes if every non-empty line is commented
+ */
+function uncommentIfCommented(lines: string[]): string[] {
+  if (!lines.every(line => line.trim() === '' || line.startsWith('#'))) {
+    return lines;
+  }
+  return lines.map(line => (line.startsWith('# ') ? line.slice(2) : line.replace(/^#$/, '')));
+}
+
+/**
+ * Comment out lines for percent format ('# ' prefix, bare '#' for empty lines)
+ */
+function commentLines(lines: string[]): string[] {
+  return lines.map(line => (line === '' ? '#' : `# ${line}`));
+}
+
+/**
+ * Options for serializing cells back to .py format
+ */
+export interface SerializeOptions {
+  /**
+   * The notebook as last read from disk. Cells whose content is unchanged are
+   * written back with their original text, so saving only touches edited cells.
+   */
+  original?: ParsedNotebook;
+  /**
+   * Line endings, BOM and final newline to write (defaults to the original's;
+   * without either, LF text is written as generated)
+   */
+  textStyle?: TextStyle;
+}
+
 /**
  * Serialize cells back to .py format
  */
 export function serializeNotebook(
   cells: ParsedCell[],
   format: NotebookFormat,
-  includeHeader: boolean = true
+  includeHeader: boolean = true,
+  options: SerializeOptions = {}
+): string {
+  const content = serializeCells(cells, format, includeHeader, options.original);
+  const textStyle = options.textStyle ?? options.original?.textStyle;
+  return textStyle ? applyTextStyle(content, textStyle) : content;
+}
+
+/**
+ * Serialize cells to LF text in the given format
+ */
+function serializeCells(
+  cells: ParsedCell[],
+  format: NotebookFormat,
+  includeHeader: boolean,
+  original?: ParsedNotebook
 ): string {
   if (format === 'plain' || cells.length === 0) {
     return cells.map(c => c.source).join('\n');
@@ -370,64 +847,175 @@ export function serializeNotebook(
     return serializePercentFormat(cells);
   }
 
-  return serializeDatabricksFormat(cells, includeHeader);
+  return serializeDatabricksFormat(cells, includeHeader, original?.format === 'databricks' ? original : undefined);
 }
 
 /**
  * Serialize to Databricks format
  */
-function serializeDatabricksFormat(cells: ParsedCell[], includeHeader: boolean): string {
+function serializeDatabricksFormat(
+  cells: ParsedCell[],
+  includeHeader: boolean,
+  original?: ParsedNotebook
+): string {
   const lines: string[] = [];
 
-  if (includeHeader) {
-    lines.push(MARKERS.DATABRICKS_HEADER);
-  }
+  // Databricks exports put the first cell right after the header, without a
+  // `# COMMAND` line; whichever cell comes first is written that way again
+  const keepsPreamble = original !== undefined && original.hasDatabricksHeader === includeHeader;
+  const firstRaw = original?.cells[0]?.raw;
+  const bareFirstCell = keepsPreamble && firstRaw !== undefined && !startsWithDelimiter(firstRaw);
 
-  for (const cell of cells) {
-    lines.push('');
-    lines.push(MARKERS.DATABRICKS_CELL);
+  if (keepsPreamble) {
+    if (original.preamble !== undefined) {
+      lines.push(original.preamble);
+    }
+  } else {
+    if (includeHeader) {
+      lines.push(MARKERS.DATABRICKS_HEADER);
+    }
     lines.push('');
+  }
 
-    if (cell.cellKind === 'markup' && cell.languageId === 'markdown') {
-      // Convert to MAGIC %md format
-      const contentLines = cell.source.split('\n');
-      lines.push(`${MARKERS.MAGIC_PREFIX}%md`);
-      for (const contentLine of contentLines) {
-        lines.push(`${MARKERS.MAGIC_PREFIX}${contentLine}`);
-      }
-    } else if (cell.languageId === 'sql') {
-      // Convert to MAGIC %sql format
-      const contentLines = cell.source.split('\n');
-      lines.push(`${MARKERS.MAGIC_PREFIX}%sql`);
-      for (const contentLine of contentLines) {
-        lines.push(`${MARKERS.MAGIC_PREFIX}${contentLine}`);
-      }
-    } else if (cell.languageId === 'shellscript') {
-      // Convert to MAGIC %sh format
+  // Original text of unchanged cells, keyed by what they serialize to
+  const originalText = new Map<string, { raw: string; index: number }[]>();
+  for (const [index, cell] of (original?.cells ?? []).entries()) {
+    if (cell.raw !== undefined) {
+      const key = reuseKey(cell);
+      originalText.set(key, [...(originalText.get(key) ?? []), { raw: cell.raw, index }]);
+    }
+  }
+
+  const segments = cells.map((cell, index): CellSegment => {
+    const cellLines = databricksCellLines(cell);
+    const candidates = originalText.get(reuseKey(cell));
+    const reused = candidates?.[0];
+
+    // Text without a leading delimiter (content before the first
+    // `# COMMAND` line) can only be reused for the first cell
+    const delimited = reused !== undefined && startsWithDelimiter(reused.raw);
+    const bare = bareFirstCell && index === 0;
+    if (reused !== undefined && (delimited || index === 0)) {
+      candidates?.shift();
+      const segment = splitTrailingBlankLines(reused.raw.split('\n'));
+      const body = bare && delimited ? withoutDelimiter(segment.body) : segment.body;
+      return { body, gap: segment.gap, originalIndex: reused.index };
+    }
+    return { body: cellLines.slice(bare ? 2 : 0, -1), gap: [''] };
+  });
+
+  // The blank lines after the original last cell are the end of the file, so
+  // a reused cell keeps its blank lines unless it moved to or from the end;
+  // then it gets the usual single blank line
+  const lastOriginal = (original?.cells.length ?? 0) - 1;
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    const wasLast = segment.originalIndex === lastOriginal;
+    lines.push(...segment.body, ...(isLast === wasLast ? segment.gap : ['']));
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * A cell's text in Databricks format, split into its lines and the blank
+ * lines that follow them
+ */
+interface CellSegment {
+  body: string[];
+  gap: string[];
+  /** Index of the cell in the original notebook, when its text is reused */
+  originalIndex?: number;
+}
+
+/**
+ * Key under which a cell's original text is reused: what the cell serializes
+ * to. `%pip` cells are parsed as shell but come back from the notebook as
+ * Python, so they are keyed as Python either way.
+ */
+function reuseKey(cell: ParsedCell): string {
+  const isPipCell = MAGIC_PATTERNS.PIP_MAGIC.test(cell.source.trim());
+  return databricksCellLines(isPipCell ? { ...cell, languageId: 'python' } : cell).join('\n');
+}
+
+/**
+ * Whether a cell's original text starts with a `# COMMAND` line
+ */
+function startsWithDelimiter(raw: string): boolean {
+  return MARKERS.DATABRICKS_CELL_REGEX.test(raw.split('\n')[0]?.trim() ?? '');
+}
+
+/**
+ * A cell's lines without its `# COMMAND` line and the blank lines after it
+ */
+function withoutDelimiter(lines: string[]): string[] {
+  let start = 1;
+  while (start < lines.length && (lines[start]?.trim() ?? '') === '') {
+    start++;
+  }
+  return lines.slice(start);
+}
+
+/**
+ * Split lines into the content and the blank lines it ends with
+ */
+function splitTrailingBlankLines(lines: string[]): { body: string[]; gap: string[] } {
+  let end = lines.length;
+  while (end > 0 && (lines[end - 1]?.trim() ?? '') === '') {
+    end--;
+  }
+  return { body: lines.slice(0, end), gap: lines.slice(end) };
+}
+
+/**
+ * Lines for a single cell in Databricks format, from its delimiter through
+ * the blank line that separates it from the next cell
+ */
+function databricksCellLines(cell: ParsedCell): string[] {
+  const lines: string[] = [MARKERS.DATABRICKS_CELL, ''];
+
+  if (cell.title !== undefined) {
+    lines.push(`${MARKERS.DBTITLE_PREFIX} ${cell.titleFlag ?? 1},${cell.title}`);
+  }
+
+  const magicCommand = DATABRICKS_MAGIC_COMMANDS[cell.languageId];
+
+  if (cell.cellKind === 'markup' && cell.languageId === 'markdown') {
+    // Convert to MAGIC %md format
+    const contentLines = cell.source.split('\n');
+    lines.push(`${MARKERS.MAGIC_PREFIX}%md`);
+    for (const contentLine of contentLines) {
+      lines.push(`${MARKERS.MAGIC_PREFIX}${contentLine}`);
+    }
+  } else if (cell.languageId === 'raw') {
+    // Databricks has no raw cells - keep the content as Python comments
+    lines.push(...commentLines(cell.source.split('\n')));
+  } else if (magicCommand !== undefined) {
+    // Convert to MAGIC %sql / %sh / %r / %scala format
+    const contentLines = cell.source.split('\n');
+    lines.push(`${MARKERS.MAGIC_PREFIX}${magicCommand}`);
+    for (const contentLine of contentLines) {
+      lines.push(`${MARKERS.MAGIC_PREFIX}${contentLine}`);
+    }
+  } else {
+    // Python code
+    const firstLine = cell.source.split('\n')[0]?.trim() ?? '';
+
+    // Check if this is a line magic (like %restart_python, %pip, %run)
+    // These need to be wrapped in # MAGIC prefix for Databricks format
+    if (/^%[a-zA-Z_]/.test(firstLine) && !firstLine.startsWith('%%')) {
       const contentLines = cell.source.split('\n');
-      lines.push(`${MARKERS.MAGIC_PREFIX}%sh`);
       for (const contentLine of contentLines) {
         lines.push(`${MARKERS.MAGIC_PREFIX}${contentLine}`);
       }
     } else {
-      // Python code
-      const firstLine = cell.source.split('\n')[0]?.trim() ?? '';
-
-      // Check if this is a line magic (like %restart_python, %pip, %run)
-      // These need to be wrapped in # MAGIC prefix for Databricks format
-      if (/^%[a-zA-Z_]/.test(firstLine) && !firstLine.startsWith('%%')) {
-        const contentLines = cell.source.split('\n');
-        for (const contentLine of contentLines) {
-          lines.push(`${MARKERS.MAGIC_PREFIX}${contentLine}`);
-        }
-      } else {
-        // Regular Python code - output as-is
-        lines.push(cell.source);
-      }
+      // Regular Python code - output as-is
+      lines.push(cell.source);
     }
   }
 
-  return lines.join('\n') + '\n';
+  lines.push('');
+  return lines;
 }
 
 /**
@@ -437,14 +1025,46 @@ function serializePercentFormat(cells: ParsedCell[]): string {
   const lines: string[] = [];
 
   for (const cell of cells) {
+    const contentLines = cell.source.split('\n');
+    const isPipCell = MAGIC_PATTERNS.PIP_MAGIC.test(cell.source.trim());
+    const cellMagic = isPipCell ? undefined : PERCENT_CELL_MAGICS[cell.languageId];
+
     if (cell.cellKind === 'markup' && cell.languageId === 'markdown') {
-      lines.push('# %% [markdown]');
+      lines.push(percentCellMarker(cell, 'markdown'));
+      lines.push(...commentLines(contentLines));
+    } else if (cell.languageId === 'raw') {
+      lines.push(percentCellMarker(cell, 'raw'));
+      lines.push(...commentLines(contentLines));
+    } else if (cellMagic !== undefined) {
+      // Non-Python cells are commented out entirely, behind their cell magic
+      lines.push(percentCellMarker(cell));
+      lines.push(...commentLines([cellMagic, ...contentLines]));
     } else {
-      lines.push('# %%');
+      // Python (and %pip) cells - comment out line magics only
+      lines.push(percentCellMarker(cell));
+      lines.push(...contentLines.map(line => (/^%[a-zA-Z_]/.test(line) ? `# ${line}` : line)));
     }
-    lines.push(cell.source);
     lines.push('');
   }
 
   return lines.join('\n');
 }
+
+/**
+ * Build the `# %% Title [type] key=value` line for a cell
+ */
+function percentCellMarker(cell: ParsedCell, cellType?: string): string {
+  const parts: string[] = [MARKERS.PERCENT_CELL];
+
+  if (cell.title) {
+    parts.push(cell.title);
+  }
+  if (cellType) {
+    parts.push(`[${cellType}]`);
+  }
+  for (const [key, value] of Object.entries(cell.metadata ?? {})) {
+    parts.push(`${key}=${JSON.stringify(value)}`);
+  }
+
+  return parts.join(' ');
+}
@@ -0,0 +1,64 @@
+import { ExtensionContext, OutputChannel, Uri, window } from 'vscode';
+import { ParseWarning } from './types';
+import { baseName } from './uriMapping';
+
+/**
+ * Output channel listing parse warnings and errors, created on activation
+ */
+let channel: OutputChannel | undefined;
+
+/**
+ * Warnings last reported per file, so reopening or reloading an unchanged
+ * notebook doesn't notify again
+ */
+const reported = new Map<string, string>();
+
+/**
+ * Create the output channel used to report notebook problems
+ */
+export function registerProblemReporting(context: ExtensionContext): void {
+  channel = window.createOutputChannel('Databricks Notebook');
+  context.subscriptions.push(channel);
+}
+
+/**
+ * Log a file's parse warnings and show a notification pointing at them
+ */
+export function reportParseWarnings(uri: Uri, warnings: ParseWarning[]): void {
+  const key = uri.toString();
+  const signature = warnings.map(warning => `${warning.code}:${warning.line}`).join(',');
+
+  if (reported.get(key) === signature) {
+    return;
+  }
+  reported.set(key, signature);
+
+  if (warnings.length === 0) {
+    return;
+  }
+
+  const fileName = baseName(uri);
+  for (const warning of warnings) {
+    log(`${fileName}:${warning.line + 1}: ${warning.message} [${warning.code}]`);
+  }
+
+  const summary = warnings.length === 1 ? '1 problem' : `${warnings.length} problems`;
+  void window
+    .showWarningMessage(`${fileName}: ${summary} found while opening the notebook`, 'Show Details')
+    .then(choice => {
+      if (choice === 'Show Details') {
+        channel?.show(true);
+      }
+    });
+}
+
+/**
+ * Log an error reading or saving a notebook (VS Code shows the error itself)
+ */
+export function logNotebookError(uri: Uri, message: string): void {
+  log(`${baseName(uri)}: ${message}`);
+}
+
+function log(line: string): void {
+  channel?.appendLine(`[${new Date().toISOString()}] ${line}`);
+}
@@ -0,0 +1,180 @@
+/**
+ * Helpers for Databricks `%run` magics, which include another notebook by a
+ * path relative to the current one (e.g. `%run ./utils/helpers`).
+ */
+
+import * as path from 'path';
+import { parseNotebook } from './parser';
+import { ParsedCell } from './types';
+
+/**
+ * A `%run` target found in cell source
+ */
+export interface RunReference {
+  /** Target path as written (without quotes) */
+  target: string;
+  /** Line of the `%run` magic (0-indexed) */
+  line: number;
+  /** Column where the target path starts */
+  start: number;
+  /** Column just after the target path */
+  end: number;
+}
+
+/** `%run <path>`, with the path optionally quoted and followed by arguments */
+const RUN_MAGIC_REGEX = /^(\s*%run\s+)("[^"]+"|'[^']+'|\S+)/;
+
+/**
+ * Find the `%run` magics in a cell's source
+ */
+export function findRunReferences(source: string): RunReference[] {
+  const references: RunReference[] = [];
+
+  source.split('\n').forEach((text, line) => {
+    const match = RUN_MAGIC_REGEX.exec(text);
+    if (!match) {
+      return;
+    }
+
+    const prefix = match[1] ?? '';
+    const written = match[2] ?? '';
+    const quoted = /^["']/.test(written);
+    const target = quoted ? written.slice(1, -1) : written;
+    const start = prefix.length + (quoted ? 1 : 0);
+
+    references.push({ target, line, start, end: start + target.length });
+  });
+
+  return references;
+}
+
+/**
+ * Whether a `%run` target is relative to the running notebook. Absolute
+ * targets refer to the Databricks workspace and can't be resolved locally.
+ */
+export function isRelativeRunTarget(target: string): boolean {
+  return !target.startsWith('/') && !target.includes('$');
+}
+
+/**
+ * Candidate file paths for a relative `%run` target, in the order to try them.
+ * Databricks omits the `.py` extension, so it's tried first.
+ *
+ * @param notebookPath POSIX path of the notebook containing the `%run`
+ */
+export function getRunTargetCandidates(notebookPath: string, target: string): string[] {
+  if (!isRelativeRunTarget(target)) {
+    return [];
+  }
+
+  const resolved = path.posix.join(path.posix.dirname(notebookPath), target);
+  return resolved.endsWith('.py') ? [resolved] : [`${resolved}.py`, resolved];
+}
+
+/**
+ * Target of a cell that consists of a single `%run` magic, as Databricks
+ * requires, or undefined for any other cell
+ */
+export function getRunCellTarget(cell: Pick<ParsedCell, 'source' | 'cellKind' | 'languageId'>): string | undefined {
+  if (cell.cellKind !== 'code' || cell.languageId !== 'python') {
+    return undefined;
+  }
+
+  const source = cell.source.trim();
+  if (source.includes('\n')) {
+    return undefined;
+  }
+
+  return findRunReferences(source)[0]?.target;
+}
+
+/** How deep `%run` chains are followed by default */
+export const DEFAULT_RUN_DEPTH = 10;
+
+/**
+ * Options for inlining `%run` dependencies
+ */
+export interface RunSourceOptions {
+  /** Read a notebook file by path, or return undefined if it doesn't exist */
+  readNotebook: (path: string) => Promise<string | undefined>;
+  /** How many levels of nested `%run` to follow (default DEFAULT_RUN_DEPTH) */
+  maxDepth?: number;
+}
+
+/**
+ * Python source for each relative `%run` target in a notebook, with the
+ * target's own `%run` cells expanded recursively, so the notebook can run
+ * in a local kernel without the Databricks runtime.
+ *
+ * Only Python cells of included notebooks are inlined. Targets that can't
+ * be found are left out (the `%run` line stays as is);
+ * circular references and chains deeper than `maxDepth` are replaced by a
+ * comment explaining why they were skipped.
+ *
+ * @param notebookPath POSIX path of the notebook
+ * @returns Expanded source keyed by the target as written in the `%run` line
+ */
+export async function resolveRunSources(
+  notebookPath: string,
+  content: string,
+  options: RunSourceOptions
+): Promise<Record<string, string>> {
+  const maxDepth = options.maxDepth ?? DEFAULT_RUN_DEPTH;
+  const sources: Record<string, string> = {};
+
+  for (const cell of parseNotebook(content).cells) {
+    const target = getRunCellTarget(cell);
+    if (target === undefined || target in sources) {
+      continue;
+    }
+
+    const expanded = await expandRunTarget(notebookPath, target, [notebookPath], 1, maxDepth, options);
+    if (expanded !== undefined) {
+      sources[target] = expanded;
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Expand one `%run` target into Python source
+ *
+ * @param stack Paths of the notebooks currently being expanded, to detect cycles
+ */
+async function expandRunTarget(
+  fromPath: string,
+  target: string,
+  stack: string[],
+  depth: number,
+  maxDepth: number,
+  options: RunSourceOptions
+): Promise<string | undefined> {
+  for (const candidate of getRunTargetCandidates(fromPath, target)) {
+    const content = await options.readNotebook(candidate);
+    if (content === undefined) {
+      continue;
+    }
+
+    if (stack.includes(candidate)) {
+      return `# %run ${target} skipped: circular reference`;
+    }
+    if (depth > maxDepth) {
+      return `# %run ${target} skipped: more than ${maxDepth} levels of nested %run`;
+    }
+
+    const parts = [`# %run ${target} (inlined for local execution)`];
+    for (const cell of parseNotebook(content).cells) {
+      const nested = getRunCellTarget(cell);
+      if (nested !== undefined) {
+        const expanded = await expandRunTarget(candidate, nested, [...stack, candidate], depth + 1, maxDepth, options);
+        parts.push(expanded ?? cell.source.trim());
+      } else if (cell.cellKind === 'code' && cell.languageId === 'python' && cell.source.trim() !== '') {
+        parts.push(cell.source.trim());
+      }
+    }
+    return parts.join('\n\n');
+  }
+
+  return undefined;
+}
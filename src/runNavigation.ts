@@ -0,0 +1,219 @@
+import {
+  CancellationToken,
+  Definition,
+  DefinitionProvider,
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticSeverity,
+  Disposable,
+  DocumentLink,
+  DocumentLinkProvider,
+  ExtensionContext,
+  FileType,
+  Location,
+  NotebookDocument,
+  Position,
+  Range,
+  TextDocument,
+  Uri,
+  commands,
+  languages,
+  workspace,
+} from 'vscode';
+import { isDatabricksNotebook } from './cellMetadata';
+import { toNotebookUri, toRealUri } from './filesystem';
+import { MAGIC_LANGUAGE } from './magicLanguage';
+import { RunReference, findRunReferences, getRunTargetCandidates, isRelativeRunTarget } from './runMagic';
+
+/**
+ * Python and magic cells of notebooks (our notebooks are filtered further below)
+ */
+const CELL_SELECTOR = [
+  { scheme: 'vscode-notebook-cell', language: 'python' },
+  { scheme: 'vscode-notebook-cell', language: MAGIC_LANGUAGE },
+];
+
+/**
+ * Pause in typing before a cell's `%run` targets are checked again
+ */
+const DIAGNOSTICS_DELAY_MS = 300;
+
+/**
+ * Find the Databricks notebook a cell document belongs to
+ */
+function findNotebook(document: TextDocument): NotebookDocument | undefined {
+  if (document.uri.scheme !== 'vscode-notebook-cell') {
+    return undefined;
+  }
+
+  return workspace.notebookDocuments.find(
+    notebook => isDatabricksNotebook(notebook) && notebook.getCells().some(cell => cell.document === document)
+  );
+}
+
+/**
+ * Resolve a `%run` target against the notebook's real location, returning
+ * the .py file it refers to, if it exists
+ */
+async function resolveRunTarget(notebook: NotebookDocument, target: string): Promise<Uri | undefined> {
+  const realUri = toRealUri(notebook.uri);
+
+  for (const candidate of getRunTargetCandidates(realUri.path, target)) {
+    const uri = realUri.with({ path: candidate });
+    try {
+      if ((await workspace.fs.stat(uri)).type & FileType.File) {
+        return uri;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Range of a `%run` target in a cell
+ */
+function toRange(reference: RunReference): Range {
+  return new Range(reference.line, reference.start, reference.line, reference.end);
+}
+
+/**
+ * Links `%run` targets to the notebooks they include
+ */
+class RunLinkProvider implements DocumentLinkProvider {
+  async provideDocumentLinks(document: TextDocument, _token: CancellationToken): Promise<DocumentLink[]> {
+    const notebook = findNotebook(document);
+    if (!notebook) {
+      return [];
+    }
+
+    const links: DocumentLink[] = [];
+    for (const reference of findRunReferences(document.getText())) {
+      const target = await resolveRunTarget(notebook, reference.target);
+      if (target) {
+        const args = encodeURIComponent(JSON.stringify([target.toString()]));
+        const link = new DocumentLink(toRange(reference), Uri.parse(`command:databricks.openRunTarget?${args}`));
+        link.tooltip = 'Open notebook';
+        links.push(link);
+      }
+    }
+    return links;
+  }
+}
+
+/**
+ * Go to Definition on a `%run` target opens the included notebook (its
+ * notebook URI opens in the Notebook Editor, see configurationDefaults)
+ */
+class RunDefinitionProvider implements DefinitionProvider {
+  async provideDefinition(
+    document: TextDocument,
+    position: Position,
+    _token: CancellationToken
+  ): Promise<Definition | undefined> {
+    const notebook = findNotebook(document);
+    const reference = findRunReferences(document.getText()).find(ref => toRange(ref).contains(position));
+    if (!notebook || !reference) {
+      return undefined;
+    }
+
+    const target = await resolveRunTarget(notebook, reference.target);
+    return target ? new Location(toNotebookUri(target), new Position(0, 0)) : undefined;
+  }
+}
+
+/**
+ * Warn about `%run` targets that don't exist. Results are dropped if the
+ * cell changed while its targets were being resolved.
+ */
+async function updateDiagnostics(document: TextDocument, diagnostics: DiagnosticCollection): Promise<void> {
+  const version = document.version;
+  const notebook = findNotebook(document);
+  if (!notebook || (document.languageId !== 'python' && document.languageId !== MAGIC_LANGUAGE)) {
+    diagnostics.delete(document.uri);
+    return;
+  }
+
+  const problems: Diagnostic[] = [];
+  for (const reference of findRunReferences(document.getText())) {
+    if (!isRelativeRunTarget(reference.target) || (await resolveRunTarget(notebook, reference.target))) {
+      continue;
+    }
+
+    const diagnostic = new Diagnostic(
+      toRange(reference),
+      `Notebook not found: ${reference.target}`,
+      DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'Databricks';
+    problems.push(diagnostic);
+  }
+
+  if (!document.isClosed && document.version === version) {
+    diagnostics.set(document.uri, problems);
+  }
+}
+
+/**
+ * Register `%run` links, Go to Definition and missing-target diagnostics
+ */
+export function registerRunNavigation(context: ExtensionContext): void {
+  const diagnostics = languages.createDiagnosticCollection('databricks-run');
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Check a cell once typing pauses, not on every keystroke
+  const scheduleDiagnostics = (document: TextDocument): void => {
+    const key = document.uri.toString();
+    clearTimeout(pending.get(key));
+    pending.set(
+      key,
+      setTimeout(() => {
+        pending.delete(key);
+        void updateDiagnostics(document, diagnostics);
+      }, DIAGNOSTICS_DELAY_MS)
+    );
+  };
+
+  const checkNotebook = (notebook: NotebookDocument): void => {
+    if (isDatabricksNotebook(notebook)) {
+      for (const cell of notebook.getCells()) {
+        void updateDiagnostics(cell.document, diagnostics);
+      }
+    }
+  };
+
+  context.subscriptions.push(
+    diagnostics,
+    new Disposable(() => pending.forEach(timer => clearTimeout(timer))),
+    languages.registerDocumentLinkProvider(CELL_SELECTOR, new RunLinkProvider()),
+    languages.registerDefinitionProvider(CELL_SELECTOR, new RunDefinitionProvider()),
+    commands.registerCommand('databricks.openRunTarget', (target: string) =>
+      commands.executeCommand('databricks.openAsNotebook', Uri.parse(target))
+    ),
+    workspace.onDidOpenNotebookDocument(checkNotebook),
+    workspace.onDidChangeTextDocument(event => {
+      if (event.document.uri.scheme === 'vscode-notebook-cell' && event.contentChanges.length > 0) {
+        scheduleDiagnostics(event.document);
+      }
+    }),
+    workspace.onDidChangeNotebookDocument(event => {
+      for (const change of event.contentChanges) {
+        for (const cell of change.removedCells) {
+          diagnostics.delete(cell.document.uri);
+        }
+        for (const cell of change.addedCells) {
+          void updateDiagnostics(cell.document, diagnostics);
+        }
+      }
+    }),
+    workspace.onDidCloseNotebookDocument(notebook => {
+      for (const cell of notebook.getCells()) {
+        diagnostics.delete(cell.document.uri);
+      }
+    })
+  );
+
+  workspace.notebookDocuments.forEach(checkNotebook);
+}
@@ -0,0 +1,332 @@
+/**
+ * Helpers for SQL cells: a small formatter, the table names a notebook
+ * defines or reads, and Databricks parameter markers (`:param`, `${var}`).
+ */
+
+/**
+ * Kinds of SQL tokens
+ */
+type SqlTokenType = 'word' | 'string' | 'quoted' | 'comment' | 'lineComment' | 'parameter' | 'whitespace' | 'symbol';
+
+/**
+ * A piece of SQL text
+ */
+interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  /** Offset of the token in the SQL text */
+  offset: number;
+}
+
+/**
+ * Token patterns, tried in order at each position
+ */
+const TOKEN_PATTERNS: { type: SqlTokenType; pattern: RegExp }[] = [
+  { type: 'whitespace', pattern: /\s+/y },
+  { type: 'lineComment', pattern: /--[^\n]*/y },
+  { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'string', pattern: /'(?:[^'\\]|\\.)*(?:'|$)|"(?:[^"\\]|\\.)*(?:"|$)/y },
+  { type: 'quoted', pattern: /`[^`]*(?:`|$)/y },
+  { type: 'parameter', pattern: /\$\{[^}\n]*\}|:[A-Za-z_]\w*/y },
+  { type: 'symbol', pattern: /::/y },
+  { type: 'word', pattern: /[A-Za-z_]\w*|\d+(?:\.\d+)?/y },
+];
+
+/**
+ * Split SQL into tokens. Anything unrecognized becomes a one-character symbol.
+ */
+function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let offset = 0;
+
+  while (offset < sql.length) {
+    let token: SqlToken | undefined;
+    for (const { type, pattern } of TOKEN_PATTERNS) {
+      pattern.lastIndex = offset;
+      const match = pattern.exec(sql);
+      if (match && match[0].length > 0) {
+        token = { type, text: match[0], offset };
+        break;
+      }
+    }
+    token = token ?? { type: 'symbol', text: sql.charAt(offset), offset };
+    tokens.push(token);
+    offset += token.text.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Keywords written in upper case by the formatter
+ */
+const KEYWORDS = new Set([
+  'add', 'all', 'alter', 'and', 'anti', 'as', 'asc', 'between', 'by', 'case', 'cast', 'create', 'cross', 'delete',
+  'desc', 'describe', 'distinct', 'drop', 'else', 'end', 'except', 'exists', 'false', 'from', 'full', 'global',
+  'group', 'having', 'if', 'in', 'inner', 'insert', 'intersect', 'into', 'is', 'join', 'left', 'like', 'limit',
+  'matched', 'merge', 'not', 'null', 'on', 'or', 'order', 'outer', 'over', 'overwrite', 'partition', 'replace',
+  'right', 'select', 'semi', 'set', 'show', 'table', 'temp', 'temporary', 'then', 'true', 'union', 'update', 'using',
+  'values', 'view', 'when', 'where', 'with',
+]);
+
+/**
+ * Keywords that start a clause on a new line
+ */
+const CLAUSE_KEYWORDS = new Set([
+  'select', 'from', 'where', 'group', 'order', 'having', 'limit', 'join', 'union', 'except', 'intersect', 'values',
+  'set',
+]);
+
+/**
+ * Join modifiers, which start a new line when followed by JOIN
+ */
+const JOIN_MODIFIERS = new Set(['left', 'right', 'inner', 'full', 'cross', 'outer', 'anti', 'semi']);
+
+/**
+ * Format SQL: keywords in upper case, each clause on its own line, one
+ * select item per line and `AND`/`OR` conditions indented below `WHERE`.
+ * Only the top level of each statement is laid out; parenthesized
+ * expressions and subqueries are kept on one line. Strings, quoted names,
+ * comments and parameters are left as written.
+ */
+export function formatSql(sql: string): string {
+  const tokens = tokenize(sql);
+  const lines: string[] = [];
+  let line = '';
+  let pendingSpace = false;
+  let depth = 0;
+  let clause = '';
+  let previousWord = '';
+  let inBetween = false;
+
+  const newLine = (indent = ''): void => {
+    if (line.trim() !== '') {
+      lines.push(line.trimEnd());
+    }
+    line = indent;
+    pendingSpace = false;
+  };
+
+  const emit = (text: string): void => {
+    if (pendingSpace && line.trim() !== '') {
+      line += ' ';
+    }
+    line += text;
+    pendingSpace = false;
+  };
+
+  tokens.forEach((token, index) => {
+    switch (token.type) {
+      case 'whitespace':
+        pendingSpace = true;
+        return;
+      case 'lineComment':
+        emit(token.text);
+        newLine();
+        return;
+      case 'word': {
+        const lower = token.text.toLowerCase();
+        const isKeyword = isKeywordAt(tokens, index);
+
+        const condition = lower === 'and' || lower === 'or';
+        if (isKeyword && depth === 0 && !(condition && inBetween)) {
+          if (startsLine(lower, previousWord, nextWords(tokens, index), clause)) {
+            newLine(condition ? '  ' : '');
+          }
+        }
+        if (isKeyword) {
+          inBetween = lower === 'between' || (inBetween && lower !== 'and');
+        }
+        if (isKeyword && depth === 0 && CLAUSE_KEYWORDS.has(lower)) {
+          clause = lower;
+        }
+
+        emit(isKeyword ? token.text.toUpperCase() : token.text);
+        previousWord = isKeyword ? lower : '';
+        return;
+      }
+      case 'symbol':
+        if (token.text === '(') {
+          depth++;
+        } else if (token.text === ')') {
+          depth = Math.max(0, depth - 1);
+        }
+
+        if (token.text === ';') {
+          line += ';';
+          newLine();
+          if (tokens.slice(index + 1).some(next => next.type !== 'whitespace')) {
+            lines.push('');
+          }
+          depth = 0;
+          clause = '';
+          previousWord = '';
+        } else if (token.text === ',' && depth === 0 && clause === 'select') {
+          line += ',';
+          newLine('  ');
+        } else if (token.text === ',') {
+          line += ',';
+          pendingSpace = true;
+        } else {
+          const attached = token.text === ')' || token.text === '.' || tokens[index - 1]?.text === '.';
+          if (attached || tokens[index - 1]?.text === '(') {
+            pendingSpace = false;
+          }
+          emit(token.text);
+        }
+        return;
+      default:
+        emit(token.text);
+    }
+  });
+
+  newLine();
+  return lines.join('\n');
+}
+
+/**
+ * Whether a word token is used as a keyword rather than as a name: not part
+ * of a qualified name (`t.left`, `left.id`), and for join modifiers, only
+ * when followed by JOIN (`LEFT OUTER JOIN`, but not `SELECT left, right`)
+ */
+function isKeywordAt(tokens: SqlToken[], index: number): boolean {
+  const lower = tokens[index]?.text.toLowerCase() ?? '';
+  if (!KEYWORDS.has(lower) || tokens[index - 1]?.text === '.' || tokens[index + 1]?.text === '.') {
+    return false;
+  }
+  if (JOIN_MODIFIERS.has(lower)) {
+    const [first = '', second = ''] = nextWords(tokens, index);
+    return first === 'join' || (JOIN_MODIFIERS.has(first) && second === 'join');
+  }
+  return true;
+}
+
+/**
+ * The next two words after a token (lower case), skipping whitespace and
+ * comments. Any other token ends the list.
+ */
+function nextWords(tokens: SqlToken[], index: number): string[] {
+  const words: string[] = [];
+  for (const token of tokens.slice(index + 1)) {
+    if (token.type === 'whitespace' || token.type === 'comment' || token.type === 'lineComment') {
+      continue;
+    }
+    if (token.type !== 'word' || words.length === 2) {
+      break;
+    }
+    words.push(token.text.toLowerCase());
+  }
+  return words;
+}
+
+/**
+ * Whether a top-level keyword starts a new line
+ */
+function startsLine(word: string, previousWord: string, next: string[], clause: string): boolean {
+  const [first = '', second = ''] = next;
+
+  if (JOIN_MODIFIERS.has(word)) {
+    return !JOIN_MODIFIERS.has(previousWord) && (first === 'join' || JOIN_MODIFIERS.has(first));
+  }
+  if (word === 'join') {
+    return !JOIN_MODIFIERS.has(previousWord);
+  }
+  if (word === 'and' || word === 'or') {
+    return clause === 'where' || clause === 'having';
+  }
+  if (word === 'when') {
+    // MERGE INTO ... WHEN [NOT] MATCHED, but not CASE WHEN
+    return first === 'matched' || (first === 'not' && second === 'matched');
+  }
+  if (word === 'set') {
+    return previousWord !== 'update';
+  }
+  if (word === 'from') {
+    return previousWord !== 'delete';
+  }
+  return CLAUSE_KEYWORDS.has(word);
+}
+
+/**
+ * Patterns that name a table or view in notebook source, with the name in
+ * the last capture group
+ */
+const TABLE_NAME_PATTERNS: RegExp[] = [
+  /\bspark(?:\.read)?\.table\(\s*(['"])([^'"\n]+)\1/g,
+  /\.saveAsTable\(\s*(['"])([^'"\n]+)\1/g,
+  /\.create(?:OrReplace)?(?:Global)?TempView\(\s*(['"])([^'"\n]+)\1/g,
+  /\bCREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL\s+)?TEMP(?:ORARY)?\s+)?(?:TABLE|VIEW)\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w.`]+)/gi,
+];
+
+/**
+ * Table and view names read or created in notebook source: `spark.table(...)`,
+ * `saveAsTable(...)`, temp views, and `CREATE TABLE`/`CREATE VIEW` statements.
+ * Names are returned once each, without backticks, in order of appearance.
+ */
+export function findTableNames(source: string): string[] {
+  const names = new Set<string>();
+
+  for (const pattern of TABLE_NAME_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      const name = match[match.length - 1]?.replace(/`/g, '');
+      if (name) {
+        names.add(name);
+      }
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * A Databricks parameter marker in SQL
+ */
+export interface SqlParameter {
+  /** Parameter name (without `:` or `${}`) */
+  name: string;
+  /** `named` for `:param` markers, `variable` for `${var}` substitutions */
+  kind: 'named' | 'variable';
+  /** Offset of the marker in the SQL text */
+  start: number;
+  /** Offset just after the marker */
+  end: number;
+}
+
+/**
+ * Find parameter markers in SQL. `:param` markers are skipped inside
+ * strings and comments and in JSON paths (`col:field`); `${var}`
+ * substitutions are textual, so they are also found inside strings.
+ */
+export function findSqlParameters(sql: string): SqlParameter[] {
+  const parameters: SqlParameter[] = [];
+
+  const addVariables = (text: string, offset: number): void => {
+    for (const match of text.matchAll(/\$\{([^}\n]*)\}/g)) {
+      const start = offset + (match.index ?? 0);
+      parameters.push({ name: match[1]?.trim() ?? '', kind: 'variable', start, end: start + match[0].length });
+    }
+  };
+
+  const tokens = tokenize(sql);
+  tokens.forEach((token, index) => {
+    // `col:field` right after a name is a JSON path, not a parameter
+    const previous = tokens[index - 1];
+    const isPath = previous?.type === 'word' || previous?.type === 'quoted' || previous?.text === ')';
+
+    if (token.type === 'parameter' && token.text.startsWith(':')) {
+      if (isPath) {
+        return;
+      }
+      parameters.push({
+        name: token.text.slice(1),
+        kind: 'named',
+        start: token.offset,
+        end: token.offset + token.text.length,
+      });
+    } else if (token.type === 'parameter' || token.type === 'string' || token.type === 'quoted') {
+      addVariables(token.text, token.offset);
+    }
+  });
+
+  return parameters;
+}
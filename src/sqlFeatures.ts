@@ -0,0 +1,221 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  CompletionItemProvider,
+  Disposable,
+  DocumentFormattingEditProvider,
+  ExtensionContext,
+  FileSystemWatcher,
+  NotebookCell,
+  Position,
+  Range,
+  TextDocument,
+  TextEdit,
+  TextEditor,
+  TextEditorDecorationType,
+  ThemeColor,
+  Uri,
+  WorkspaceEdit,
+  commands,
+  languages,
+  window,
+  workspace,
+} from 'vscode';
+import { isDatabricksNotebook } from './cellMetadata';
+import { decodeNotebookText } from './encoding';
+import { startsWithDatabricksHeader } from './parser';
+import { findSqlParameters, findTableNames, formatSql } from './sql';
+
+/**
+ * SQL cells of notebooks (our notebooks are filtered further below)
+ */
+const SQL_CELL_SELECTOR = { scheme: 'vscode-notebook-cell', language: 'sql' };
+
+/**
+ * Most notebook files to scan for table names
+ */
+const MAX_INDEXED_FILES = 2000;
+
+/**
+ * Find the cell of one of our notebooks that a document belongs to
+ */
+function findCell(document: TextDocument): NotebookCell | undefined {
+  if (document.uri.scheme !== 'vscode-notebook-cell') {
+    return undefined;
+  }
+
+  return workspace.notebookDocuments
+    .filter(isDatabricksNotebook)
+    .flatMap(notebook => notebook.getCells())
+    .find(cell => cell.document === document);
+}
+
+/**
+ * Edits formatting a SQL cell. A leading `%%sql`/`%sql` line is kept as is.
+ */
+function formatCellEdits(document: TextDocument): TextEdit[] {
+  const source = document.getText();
+  const lines = source.split('\n');
+  const hasMagic = /^%%?sql\s*$/.test(lines[0] ?? '');
+  const body = hasMagic ? lines.slice(1).join('\n') : source;
+
+  const formatted = formatSql(body);
+  const updated = hasMagic ? `${lines[0] ?? ''}\n${formatted}` : formatted;
+  if (updated === source) {
+    return [];
+  }
+  return [TextEdit.replace(new Range(document.positionAt(0), document.positionAt(source.length)), updated)];
+}
+
+/**
+ * Formats SQL cells with Format Document / Format Notebook
+ */
+class SqlFormattingProvider implements DocumentFormattingEditProvider {
+  provideDocumentFormattingEdits(document: TextDocument): TextEdit[] {
+    return findCell(document) ? formatCellEdits(document) : [];
+  }
+}
+
+/**
+ * Format the given SQL cell, or the selected SQL cells of the active notebook
+ */
+async function formatSqlCells(cell?: NotebookCell): Promise<void> {
+  const editor = window.activeNotebookEditor;
+  const cells = cell ? [cell] : (editor?.selections.flatMap(range => editor.notebook.getCells(range)) ?? []);
+
+  const edit = new WorkspaceEdit();
+  for (const target of cells) {
+    if (target.document.languageId === 'sql' && isDatabricksNotebook(target.notebook)) {
+      edit.set(target.document.uri, formatCellEdits(target.document));
+    }
+  }
+  await workspace.applyEdit(edit);
+}
+
+/**
+ * Table names found in the workspace's Databricks notebooks, kept up to date
+ * as files change
+ */
+class TableNameIndex implements Disposable {
+  private readonly names = new Map<string, string[]>();
+  private watcher: FileSystemWatcher | undefined;
+  private loading: Promise<void> | undefined;
+
+  /**
+   * All known table names, including the ones in open notebooks' unsaved cells
+   */
+  async getNames(): Promise<string[]> {
+    this.loading = this.loading ?? this.load();
+    await this.loading;
+
+    const openCells = workspace.notebookDocuments
+      .filter(isDatabricksNotebook)
+      .flatMap(notebook => notebook.getCells())
+      .map(cell => cell.document.getText());
+
+    return [...new Set([...[...this.names.values()].flat(), ...findTableNames(openCells.join('\n'))])];
+  }
+
+  /**
+   * Index the workspace and start watching it, on first use so that
+   * activation doesn't scan every .py file
+   */
+  private async load(): Promise<void> {
+    this.watcher = workspace.createFileSystemWatcher('**/*.py');
+    this.watcher.onDidCreate(uri => void this.update(uri));
+    this.watcher.onDidChange(uri => void this.update(uri));
+    this.watcher.onDidDelete(uri => this.names.delete(uri.toString()));
+
+    const files = await workspace.findFiles('**/*.py', undefined, MAX_INDEXED_FILES);
+    for (const uri of files) {
+      await this.update(uri);
+    }
+  }
+
+  private async update(uri: Uri): Promise<void> {
+    try {
+      const text = decodeNotebookText(await workspace.fs.readFile(uri));
+      if (startsWithDatabricksHeader(text)) {
+        this.names.set(uri.toString(), findTableNames(text));
+      } else {
+        this.names.delete(uri.toString());
+      }
+    } catch {
+      // Unreadable or binary files have no table names
+      this.names.delete(uri.toString());
+    }
+  }
+
+  dispose(): void {
+    this.watcher?.dispose();
+  }
+}
+
+/**
+ * Completes table names in SQL cells
+ */
+class TableNameCompletionProvider implements CompletionItemProvider {
+  constructor(private readonly index: TableNameIndex) {}
+
+  async provideCompletionItems(document: TextDocument, position: Position): Promise<CompletionItem[]> {
+    if (!findCell(document)) {
+      return [];
+    }
+
+    // Replace the whole dotted name typed so far (catalog.schema.table)
+    const range = document.getWordRangeAtPosition(position, /[\w.]+/);
+    return (await this.index.getNames()).map(name => {
+      const item = new CompletionItem(name, CompletionItemKind.Struct);
+      item.detail = 'Table';
+      item.range = range;
+      return item;
+    });
+  }
+}
+
+/**
+ * Highlight the `:param` and `${var}` markers of a visible SQL cell editor
+ */
+function updateParameterHighlights(editor: TextEditor, decoration: TextEditorDecorationType): void {
+  const { document } = editor;
+  if (document.languageId !== 'sql' || !findCell(document)) {
+    return;
+  }
+
+  editor.setDecorations(
+    decoration,
+    findSqlParameters(document.getText()).map(parameter => ({
+      range: new Range(document.positionAt(parameter.start), document.positionAt(parameter.end)),
+      hoverMessage:
+        parameter.kind === 'named'
+          ? `Query parameter \`${parameter.name}\``
+          : `Substituted variable \`${parameter.name}\``,
+    }))
+  );
+}
+
+/**
+ * Register SQL cell formatting, table name completion and parameter highlighting
+ */
+export function registerSqlFeatures(context: ExtensionContext): void {
+  const index = new TableNameIndex();
+  const parameterDecoration = window.createTextEditorDecorationType({
+    color: new ThemeColor('symbolIcon.variableForeground'),
+    fontWeight: 'bold',
+  });
+  const highlight = (editor: TextEditor): void => updateParameterHighlights(editor, parameterDecoration);
+
+  context.subscriptions.push(
+    index,
+    parameterDecoration,
+    languages.registerDocumentFormattingEditProvider(SQL_CELL_SELECTOR, new SqlFormattingProvider()),
+    languages.registerCompletionItemProvider(SQL_CELL_SELECTOR, new TableNameCompletionProvider(index), '.'),
+    commands.registerCommand('databricks.formatSqlCell', formatSqlCells),
+    window.onDidChangeVisibleTextEditors(editors => editors.forEach(highlight)),
+    workspace.onDidChangeTextDocument(event => {
+      window.visibleTextEditors.filter(editor => editor.document === event.document).forEach(highlight);
+    })
+  );
+
+  window.visibleTextEditors.forEach(highlight);
+}
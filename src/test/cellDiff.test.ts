@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { diffCells, describeCellDiff, hasCellChanges } from '../cellDiff';
+import { CellLanguage } from '../types';
+
+function cells(...sources: string[]): { source: string; languageId: CellLanguage }[] {
+  return sources.map(source => ({ source, languageId: 'python' }));
+}
+
+describe('diffCells', () => {
+  it('identical_cells_report_no_changes', () => {
+    const summary = diffCells(cells('a', 'b'), cells('a', 'b'));
+    expect(summary).toEqual({ added: 0, removed: 0, changed: 0, unchanged: 2 });
+    expect(hasCellChanges(summary)).toBe(false);
+  });
+
+  it('edited_cell_counts_as_changed', () => {
+    expect(diffCells(cells('a', 'b', 'c'), cells('a', 'B', 'c'))).toEqual({
+      added: 0,
+      removed: 0,
+      changed: 1,
+      unchanged: 2,
+    });
+  });
+
+  it('inserted_and_removed_cells_are_counted', () => {
+    expect(diffCells(cells('a', 'b', 'c'), cells('x', 'a', 'c'))).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 0,
+      unchanged: 2,
+    });
+  });
+
+  it('language_change_counts_as_changed', () => {
+    const summary = diffCells(
+      [{ source: 'SELECT 1', languageId: 'python' }],
+      [{ source: 'SELECT 1', languageId: 'sql' }]
+    );
+    expect(summary.changed).toBe(1);
+  });
+
+  it('empty_before_counts_all_as_added', () => {
+    expect(diffCells([], cells('a', 'b'))).toEqual({ added: 2, removed: 0, changed: 0, unchanged: 0 });
+  });
+});
+
+describe('describeCellDiff', () => {
+  it('lists_each_kind_of_change', () => {
+    expect(describeCellDiff({ added: 1, removed: 2, changed: 1, unchanged: 3 })).toBe(
+      '4 cells: 1 changed, 1 added, 2 removed'
+    );
+  });
+
+  it('single_change_uses_singular', () => {
+    expect(describeCellDiff({ added: 0, removed: 0, changed: 1, unchanged: 0 })).toBe('1 cell: 1 changed');
+  });
+
+  it('no_changes_says_so', () => {
+    expect(describeCellDiff({ added: 0, removed: 0, changed: 0, unchanged: 2 })).toBe('no cell changes');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { decodeNotebookText, NotebookDecodeError } from '../encoding';
+
+describe('decodeNotebookText', () => {
+  it('utf8_text_is_decoded', () => {
+    const bytes = new TextEncoder().encode('# Databricks notebook source\nprint("héllo")\n');
+    expect(decodeNotebookText(bytes)).toBe('# Databricks notebook source\nprint("héllo")\n');
+  });
+
+  it('bom_is_kept_in_text', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, 0x61]);
+    expect(decodeNotebookText(bytes)).toBe('\uFEFFa');
+  });
+
+  it('invalid_utf8_throws_decode_error', () => {
+    const bytes = new Uint8Array([0x61, 0xff, 0xfe, 0x62]);
+    expect(() => decodeNotebookText(bytes)).toThrow(NotebookDecodeError);
+  });
+
+  it('binary_content_throws_decode_error', () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]);
+    expect(() => decodeNotebookText(bytes)).toThrow(/binary/);
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { pyToIpynb, ipynbToPy } from '../ipynbConverter';
+import {
+  pyToIpynb,
+  ipynbToPy,
+  extractCellOutputs,
+  IpynbValidationError,
+  withCellMagic,
+  withoutCellMagic,
+  toFileCellIndex,
+  toNotebookCellIndex,
+  isCodeLanguage,
+} from '../ipynbConverter';
 
 interface IpynbCell {
   cell_type: 'code' | 'markdown' | 'raw';
@@ -9,6 +19,7 @@ interface IpynbCell {
       languageId?: string;
     };
     databricks_language?: string;
+    databricks_title?: string;
     [key: string]: unknown;
   };
   execution_count?: number | null;
@@ -417,3 +428,554 @@ describe('unknown magic handling', () => {
     expect(pyContent).toContain('# MAGIC %run ./other_notebook');
   });
 });
+
+describe('output persistence', () => {
+  const pyContent = `# Databricks notebook source
+
+# COMMAND ----------
+
+import pandas as pd
+
+# COMMAND ----------
+
+# MAGIC %md
+# MAGIC # Title
+
+# COMMAND ----------
+
+print("hello")
+`;
+
+  const streamOutput = { output_type: 'stream', name: 'stdout', text: ['hello\n'] };
+
+  it('extracts outputs from executed code cells only', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook;
+    ipynb.cells[2].execution_count = 4;
+    ipynb.cells[2].outputs = [streamOutput];
+
+    const store = extractCellOutputs(JSON.stringify(ipynb));
+
+    expect(Object.values(store.cells)).toEqual([
+      { execution_count: 4, outputs: [streamOutput] },
+    ]);
+  });
+
+  it('restores stored outputs onto matching cells', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook;
+    ipynb.cells[2].execution_count = 4;
+    ipynb.cells[2].outputs = [streamOutput];
+    const store = extractCellOutputs(JSON.stringify(ipynb));
+
+    const reloaded = JSON.parse(pyToIpynb(pyContent, { outputs: store })) as IpynbNotebook;
+
+    expect(reloaded.cells[0].outputs).toEqual([]);
+    expect(reloaded.cells[2].execution_count).toBe(4);
+    expect(reloaded.cells[2].outputs).toEqual([streamOutput]);
+  });
+
+  it('keeps outputs attached when cells move and drops them when code changes', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook;
+    ipynb.cells[0].outputs = [streamOutput];
+    ipynb.cells[2].outputs = [streamOutput];
+    const store = extractCellOutputs(JSON.stringify(ipynb));
+
+    const edited = `# Databricks notebook source
+
+# COMMAND ----------
+
+print("hello")
+
+# COMMAND ----------
+
+import pandas as pd
+import numpy as np
+`;
+    const reloaded = JSON.parse(pyToIpynb(edited, { outputs: store })) as IpynbNotebook;
+
+    expect(reloaded.cells[0].outputs).toEqual([streamOutput]);
+    expect(reloaded.cells[1].outputs).toEqual([]);
+  });
+});
+
+describe('cell titles', () => {
+  it('carries DBTITLE through ipynb metadata and back', () => {
+    const pyContent = `# Databricks notebook source
+
+# COMMAND ----------
+
+# DBTITLE 1,Setup
+import pandas as pd
+
+# COMMAND ----------
+
+# DBTITLE 1,Notes
+# MAGIC %md
+# MAGIC Some notes
+`;
+
+    const ipynbJson = pyToIpynb(pyContent);
+    const ipynb = JSON.parse(ipynbJson) as IpynbNotebook;
+
+    expect(ipynb.cells[0].metadata.databricks_title).toBe('Setup');
+    expect(ipynb.cells[0].source.join('')).toBe('import pandas as pd');
+    expect(ipynb.cells[1].metadata.databricks_title).toBe('Notes');
+
+    const roundTrippedPy = ipynbToPy(ipynbJson);
+    expect(roundTrippedPy).toContain('# DBTITLE 1,Setup\nimport pandas as pd');
+    expect(roundTrippedPy).toContain('# DBTITLE 1,Notes\n# MAGIC %md');
+  });
+});
+
+describe('format settings', () => {
+  const cells = [
+    {
+      cell_type: 'markdown',
+      source: ['# Title'],
+      metadata: {},
+    },
+    {
+      cell_type: 'code',
+      source: ['print("hello")'],
+      metadata: {},
+      execution_count: null,
+      outputs: [],
+    },
+  ];
+
+  function notebookWithFormat(format?: string, hasDatabricksHeader = true): string {
+    return JSON.stringify({
+      cells,
+      metadata: format ? { databricks_notebook: { format, hasDatabricksHeader } } : {},
+      nbformat: 4,
+      nbformat_minor: 5,
+    });
+  }
+
+  it('preserveFormat keeps percent notebooks in percent format', () => {
+    const pyContent = ipynbToPy(notebookWithFormat('percent'), {
+      preserveFormat: true,
+      defaultFormat: 'databricks',
+    });
+
+    expect(pyContent).toContain('# %% [markdown]');
+    expect(pyContent).not.toContain('# COMMAND ----------');
+  });
+
+  it('preserveFormat keeps databricks notebooks in databricks format', () => {
+    const pyContent = ipynbToPy(notebookWithFormat('databricks'), {
+      preserveFormat: true,
+      defaultFormat: 'percent',
+    });
+
+    expect(pyContent).toContain('# Databricks notebook source');
+    expect(pyContent).not.toContain('# %%');
+  });
+
+  it('preserveFormat keeps a headerless databricks notebook headerless', () => {
+    const pyContent = ipynbToPy(notebookWithFormat('databricks', false), {
+      preserveFormat: true,
+      defaultFormat: 'databricks',
+    });
+
+    expect(pyContent).not.toContain('# Databricks notebook source');
+    expect(pyContent).toContain('# COMMAND ----------');
+  });
+
+  it('without preserveFormat normalizes percent to databricks with header', () => {
+    const pyContent = ipynbToPy(notebookWithFormat('percent'), {
+      preserveFormat: false,
+      defaultFormat: 'databricks',
+    });
+
+    expect(pyContent).toContain('# Databricks notebook source');
+    expect(pyContent).toContain('# MAGIC %md');
+  });
+
+  it('without preserveFormat normalizes databricks to percent', () => {
+    const pyContent = ipynbToPy(notebookWithFormat('databricks'), {
+      preserveFormat: false,
+      defaultFormat: 'percent',
+    });
+
+    expect(pyContent).toContain('# %% [markdown]');
+    expect(pyContent).not.toContain('# Databricks notebook source');
+  });
+
+  it('plain files are saved in the default format', () => {
+    const databricks = ipynbToPy(notebookWithFormat('plain', false), {
+      preserveFormat: true,
+      defaultFormat: 'databricks',
+    });
+    const percent = ipynbToPy(notebookWithFormat('plain', false), {
+      preserveFormat: true,
+      defaultFormat: 'percent',
+    });
+
+    expect(databricks).toContain('# Databricks notebook source');
+    expect(percent).toContain('# %%');
+  });
+
+  it('notebooks without format metadata use the default format', () => {
+    const pyContent = ipynbToPy(notebookWithFormat(), { defaultFormat: 'percent' });
+
+    expect(pyContent).toContain('# %% [markdown]');
+  });
+
+  it('plain files stay plain when no options are given', () => {
+    const pyContent = ipynbToPy(notebookWithFormat('plain', false));
+
+    expect(pyContent).toBe('# Title\nprint("hello")');
+  });
+});
+
+describe('exact round-trip', () => {
+  it('writes an unedited notebook back byte-for-byte', () => {
+    const originalPy = `# Databricks notebook source
+# COMMAND ----------
+# MAGIC %md
+# MAGIC # Title   
+# MAGIC
+
+# COMMAND --------
+
+# MAGIC %pip install pandas
+
+
+# COMMAND ----------
+df = spark.table("t")
+`;
+
+    const roundTrippedPy = ipynbToPy(pyToIpynb(originalPy), { original: originalPy });
+    expect(roundTrippedPy).toBe(originalPy);
+  });
+
+  it('only changes the edited cell', () => {
+    const originalPy = `# Databricks notebook source
+# COMMAND ----------
+x = 1
+# COMMAND ----------
+y = 2
+`;
+
+    const ipynb = JSON.parse(pyToIpynb(originalPy)) as IpynbNotebook;
+    ipynb.cells[1].source = ['y = 3'];
+
+    const roundTrippedPy = ipynbToPy(JSON.stringify(ipynb), { original: originalPy });
+    expect(roundTrippedPy).toBe(`# Databricks notebook source
+# COMMAND ----------
+x = 1
+# COMMAND ----------
+
+y = 3
+`);
+  });
+});
+
+describe('r and scala cells', () => {
+  const pyContent = `# Databricks notebook source
+
+# COMMAND ----------
+
+# MAGIC %r
+# MAGIC head(df)
+
+# COMMAND ----------
+
+# MAGIC %scala
+# MAGIC val x = 1
+`;
+
+  it('adds %%R and %%scala cell magics with language metadata', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook;
+
+    expect(ipynb.cells[0].source.join('')).toBe('%%R\nhead(df)');
+    expect(ipynb.cells[0].metadata.vscode?.languageId).toBe('r');
+    expect(ipynb.cells[0].metadata.databricks_language).toBe('r');
+    expect(ipynb.cells[1].source.join('')).toBe('%%scala\nval x = 1');
+    expect(ipynb.cells[1].metadata.vscode?.languageId).toBe('scala');
+  });
+
+  it('round-trips back to # MAGIC %r and # MAGIC %scala', () => {
+    const roundTrippedPy = ipynbToPy(pyToIpynb(pyContent));
+
+    expect(roundTrippedPy).toContain('# MAGIC %r\n# MAGIC head(df)');
+    expect(roundTrippedPy).toContain('# MAGIC %scala\n# MAGIC val x = 1');
+    expect(roundTrippedPy).not.toContain('%%');
+  });
+});
+
+describe('percent format cells', () => {
+  it('round-trips raw cells and cell metadata through ipynb', () => {
+    const pyContent = `# %% [markdown] tags=["intro"]
+# # Title
+
+# %% [raw]
+# raw text
+
+# %% Query
+# %%sql
+# SELECT 1
+`;
+
+    const ipynbJson = pyToIpynb(pyContent);
+    const ipynb = JSON.parse(ipynbJson) as IpynbNotebook;
+
+    expect(ipynb.cells[0].metadata.tags).toEqual(['intro']);
+    expect(ipynb.cells[1].cell_type).toBe('raw');
+    expect(ipynb.cells[2].source.join('')).toBe('%%sql\nSELECT 1');
+
+    expect(ipynbToPy(ipynbJson)).toBe(pyContent);
+  });
+});
+
+describe('empty notebooks', () => {
+  it('gives a header-only notebook a single empty code cell', () => {
+    const ipynb = JSON.parse(pyToIpynb('# Databricks notebook source\n')) as IpynbNotebook;
+
+    expect(ipynb.cells).toHaveLength(1);
+    expect(ipynb.cells[0].cell_type).toBe('code');
+    expect(ipynb.cells[0].source).toEqual([]);
+  });
+});
+
+describe('ipynb validation', () => {
+  it('invalid_json_throws_validation_error', () => {
+    expect(() => ipynbToPy('{"cells": [')).toThrow(IpynbValidationError);
+  });
+
+  it('missing_cells_throws_validation_error', () => {
+    expect(() => ipynbToPy(JSON.stringify({ metadata: {} }))).toThrow(/"cells"/);
+  });
+
+  it('unknown_cell_type_names_the_cell', () => {
+    const ipynb = { cells: [{ cell_type: 'code', source: [] }, { cell_type: 'widget', source: [] }] };
+    expect(() => ipynbToPy(JSON.stringify(ipynb))).toThrow(/Cell 2 has unknown cell_type "widget"/);
+  });
+
+  it('non_text_source_throws_validation_error', () => {
+    const ipynb = { cells: [{ cell_type: 'code', source: [1, 2] }] };
+    expect(() => extractCellOutputs(JSON.stringify(ipynb))).toThrow(IpynbValidationError);
+  });
+
+  it('old_nbformat_throws_validation_error', () => {
+    expect(() => ipynbToPy(JSON.stringify({ cells: [], nbformat: 3 }))).toThrow(/version 3/);
+  });
+
+  it('missing_metadata_defaults_to_empty', () => {
+    const ipynb = { cells: [{ cell_type: 'code', source: 'print(1)' }] };
+    expect(ipynbToPy(JSON.stringify(ipynb))).toContain('print(1)');
+  });
+});
+
+describe('text style', () => {
+  it('crlf_and_bom_survive_roundtrip_through_metadata', () => {
+    const pyContent =
+      '\uFEFF# Databricks notebook source\r\n\r\n# COMMAND ----------\r\n\r\nprint(1)\r\n\r\n# COMMAND ----------\r\n\r\nprint(2)\r\n';
+    const ipynb = JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook;
+
+    expect(ipynb.metadata.databricks_notebook).toMatchObject({ eol: 'crlf', bom: true, finalNewline: true });
+    expect(ipynb.cells[0]?.source).toEqual(['print(1)']);
+    expect(ipynbToPy(JSON.stringify(ipynb))).toBe(pyContent);
+  });
+
+  it('missing_final_newline_survives_roundtrip', () => {
+    const pyContent = '# Databricks notebook source\n\n# COMMAND ----------\n\nprint(1)';
+    expect(ipynbToPy(pyToIpynb(pyContent))).toBe(pyContent);
+  });
+
+  it('cells_added_to_an_empty_file_end_with_a_newline', () => {
+    const ipynb = JSON.parse(pyToIpynb('')) as IpynbNotebook;
+    ipynb.cells = [{ cell_type: 'code', source: ['x = 1'], metadata: {}, execution_count: null, outputs: [] }];
+    expect(ipynbToPy(JSON.stringify(ipynb))).toMatch(/x = 1\n$/);
+  });
+});
+
+describe('inlined %run dependencies', () => {
+  const pyContent =
+    '# Databricks notebook source\n\n# COMMAND ----------\n\n# MAGIC %run ./utils\n\n# COMMAND ----------\n\nprint(x)\n';
+  const runSources = { './utils': 'x = 1' };
+
+  it('run_cell_shows_inlined_source', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { runSources })) as IpynbNotebook;
+    expect(ipynb.cells[0]?.source).toEqual(['x = 1']);
+    expect(ipynb.cells[0]?.metadata.databricks_run).toBe('%run ./utils');
+  });
+
+  it('saving_restores_original_run_line', () => {
+    expect(ipynbToPy(pyToIpynb(pyContent, { runSources }), { original: pyContent })).toBe(pyContent);
+  });
+
+  it('saving_discards_edits_to_inlined_source', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { runSources })) as IpynbNotebook;
+    ipynb.cells = ipynb.cells.map((cell, index) => (index === 0 ? { ...cell, source: ['x = 2'] } : cell));
+    expect(ipynbToPy(JSON.stringify(ipynb))).toContain('# MAGIC %run ./utils');
+  });
+
+  it('run_without_source_is_unchanged', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { runSources: {} })) as IpynbNotebook;
+    expect(ipynb.cells[0]?.source).toEqual(['%run ./utils']);
+  });
+});
+
+describe('widget shim', () => {
+  const pyContent =
+    '# Databricks notebook source\n\n# COMMAND ----------\n\ndbutils.widgets.text("env", "dev")\n\n# COMMAND ----------\n\nprint(dbutils.widgets.get("env"))\n';
+
+  it('parameters_cell_is_injected_first', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { widgetShim: true })) as IpynbNotebook;
+    expect(ipynb.cells).toHaveLength(3);
+    expect(ipynb.cells[0]?.metadata.tags).toEqual(['parameters']);
+    expect(ipynb.cells[0]?.source.join('')).toContain('"env": "dev"');
+  });
+
+  it('parameters_cell_is_not_saved', () => {
+    expect(ipynbToPy(pyToIpynb(pyContent, { widgetShim: true }), { original: pyContent })).toBe(pyContent);
+  });
+
+  it('outputs_stay_with_their_cells', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { widgetShim: true })) as IpynbNotebook;
+    ipynb.cells = ipynb.cells.map(cell => ({ ...cell, execution_count: 1, outputs: [{ output_type: 'stream' }] }));
+    const store = extractCellOutputs(JSON.stringify(ipynb));
+    expect(Object.keys(store.cells)).toHaveLength(2);
+
+    const reopened = JSON.parse(pyToIpynb(pyContent, { widgetShim: true, outputs: store })) as IpynbNotebook;
+    expect(reopened.cells.map(cell => cell.outputs?.length)).toEqual([0, 1, 1]);
+  });
+
+  it('notebook_without_widgets_gets_no_cell', () => {
+    const ipynb = JSON.parse(
+      pyToIpynb('# Databricks notebook source\nprint(1)\n', { widgetShim: true })
+    ) as IpynbNotebook;
+    expect(ipynb.cells).toHaveLength(1);
+  });
+
+  it('cell_indexes_skip_the_shim', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { widgetShim: true })) as IpynbNotebook;
+    const metadata = ipynb.cells.map(cell => cell.metadata);
+    expect(toFileCellIndex(metadata, 0)).toBeUndefined();
+    expect(toFileCellIndex(metadata, 1)).toBe(0);
+    expect(toNotebookCellIndex(metadata, 0)).toBe(1);
+    expect(toNotebookCellIndex(metadata, 5)).toBeUndefined();
+  });
+
+  it('cell_indexes_unchanged_without_shim', () => {
+    const metadata = (JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook).cells.map(cell => cell.metadata);
+    expect(toFileCellIndex(metadata, 0)).toBe(0);
+    expect(toNotebookCellIndex(metadata, 0)).toBe(0);
+  });
+});
+
+describe('cell language changes', () => {
+  function notebookWithCell(source: string, metadata: Record<string, unknown>): string {
+    return JSON.stringify({
+      cells: [{ cell_type: 'code', source: [source], metadata, execution_count: null, outputs: [] }],
+      metadata: { databricks_notebook: { format: 'databricks', hasDatabricksHeader: true } },
+      nbformat: 4,
+      nbformat_minor: 5,
+    });
+  }
+
+  it('language_picked_in_ui_wins_over_stored_language', () => {
+    const pyContent = ipynbToPy(
+      notebookWithCell('SELECT 1', { databricks_language: 'python', vscode: { languageId: 'sql' } })
+    );
+    expect(pyContent).toContain('# MAGIC %sql\n# MAGIC SELECT 1');
+  });
+
+  it('switching_back_to_python_drops_stale_stored_language', () => {
+    const pyContent = ipynbToPy(notebookWithCell('x = 1', { databricks_language: 'sql' }));
+    expect(pyContent).toContain('\nx = 1\n');
+    expect(pyContent).not.toContain('%sql');
+  });
+
+  it('unsupported_ui_language_saves_as_python', () => {
+    const pyContent = ipynbToPy(notebookWithCell('x = 1', { vscode: { languageId: 'javascript' } }));
+    expect(pyContent).toContain('\nx = 1\n');
+  });
+});
+
+describe('withCellMagic', () => {
+  it('adds_magic_for_non_python_language', () => {
+    expect(withCellMagic('SELECT 1', 'sql')).toBe('%%sql\nSELECT 1');
+  });
+
+  it('replaces_magic_of_previous_language', () => {
+    expect(withCellMagic('%%sql\nls', 'shellscript')).toBe('%%bash\nls');
+  });
+
+  it('removes_magic_for_python', () => {
+    expect(withCellMagic('%%R\nx <- 1', 'python')).toBe('x <- 1');
+  });
+
+  it('leaves_pip_cells_without_bash_magic', () => {
+    expect(withCellMagic('%pip install pandas', 'shellscript')).toBe('%pip install pandas');
+  });
+
+  it('leaves_consistent_source_unchanged', () => {
+    expect(withCellMagic('%%scala\nval x = 1', 'scala')).toBe('%%scala\nval x = 1');
+  });
+});
+
+describe('isCodeLanguage', () => {
+  it('accepts_code_cell_languages_only', () => {
+    expect(['python', 'sql', 'shellscript', 'r', 'scala'].every(isCodeLanguage)).toBe(true);
+    expect(['markdown', 'raw', 'javascript'].some(isCodeLanguage)).toBe(false);
+  });
+});
+
+describe('hidden cell magics', () => {
+  const pyContent =
+    '# Databricks notebook source\n\n# COMMAND ----------\n\n# MAGIC %sql\n# MAGIC SELECT 1\n\n# COMMAND ----------\n\n# MAGIC %sh\n# MAGIC ls\n';
+
+  it('cells_show_only_their_body', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { hideCellMagics: true })) as IpynbNotebook;
+    expect(ipynb.cells.map(cell => cell.source)).toEqual([['SELECT 1'], ['ls']]);
+    expect(ipynb.cells.map(cell => cell.metadata.vscode?.languageId)).toEqual(['sql', 'shellscript']);
+  });
+
+  it('language_comes_from_metadata_on_save', () => {
+    expect(ipynbToPy(pyToIpynb(pyContent, { hideCellMagics: true }))).toBe(pyContent);
+  });
+
+  it('magic_added_for_execution_is_stripped_on_save', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { hideCellMagics: true })) as IpynbNotebook;
+    ipynb.cells = ipynb.cells.map((cell, index) => (index === 0 ? { ...cell, source: ['%%sql\n', 'SELECT 1'] } : cell));
+    expect(ipynbToPy(JSON.stringify(ipynb))).toBe(pyContent);
+  });
+});
+
+describe('withoutCellMagic', () => {
+  it('removes_leading_cell_magic', () => {
+    expect(withoutCellMagic('%%bash\nls')).toBe('ls');
+  });
+
+  it('keeps_line_magics_and_plain_code', () => {
+    expect(withoutCellMagic('%pip install x')).toBe('%pip install x');
+    expect(withoutCellMagic('x = 1\n%%sql')).toBe('x = 1\n%%sql');
+  });
+});
+
+describe('magic cells', () => {
+  const pyContent =
+    '# Databricks notebook source\n\n# COMMAND ----------\n\n# MAGIC %run ./helpers\n\n# COMMAND ----------\n\nx = 1\n';
+
+  it('magic_cells_get_the_magic_language', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent, { magicCells: ['run'] })) as IpynbNotebook;
+    expect(ipynb.cells.map(cell => cell.metadata.vscode?.languageId)).toEqual(['databricks-magic', undefined]);
+  });
+
+  it('magic_cells_stay_python_without_the_option', () => {
+    const ipynb = JSON.parse(pyToIpynb(pyContent)) as IpynbNotebook;
+    expect(ipynb.cells.map(cell => cell.metadata.vscode?.languageId)).toEqual([undefined, undefined]);
+  });
+
+  it('magic_followed_by_python_stays_python', () => {
+    const content = '# Databricks notebook source\n\n# MAGIC %run ./helpers\n# MAGIC x = 1\n';
+    const ipynb = JSON.parse(pyToIpynb(content, { magicCells: ['run'] })) as IpynbNotebook;
+    expect(ipynb.cells.map(cell => cell.metadata.vscode?.languageId)).toEqual([undefined]);
+  });
+
+  it('magic_cells_save_as_python', () => {
+    expect(ipynbToPy(pyToIpynb(pyContent, { magicCells: ['run'] }))).toBe(pyContent);
+  });
+});
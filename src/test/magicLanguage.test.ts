@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAGIC_CELLS,
+  MAGIC_LANGUAGE,
+  getAnalysisLanguage,
+  getLeadingMagic,
+  isMagicCell,
+  isMagicLine,
+  splitMagicLines,
+} from '../magicLanguage';
+
+describe('getLeadingMagic', () => {
+  it('line_and_cell_magics', () => {
+    expect(getLeadingMagic('%run ./helpers')).toBe('run');
+    expect(getLeadingMagic('%%capture\nx = 1')).toBe('capture');
+    expect(getLeadingMagic('%md-sandbox\n<b>hi</b>')).toBe('md-sandbox');
+  });
+
+  it('only_the_first_line_counts', () => {
+    expect(getLeadingMagic('x = 1\n%run ./helpers')).toBeUndefined();
+    expect(getLeadingMagic('print("%run")')).toBeUndefined();
+  });
+});
+
+describe('isMagicCell', () => {
+  it('matches_configured_magic_names', () => {
+    expect(isMagicCell('%run ./helpers', DEFAULT_MAGIC_CELLS)).toBe(true);
+    expect(isMagicCell('%fs ls /mnt', DEFAULT_MAGIC_CELLS)).toBe(true);
+    expect(isMagicCell('%timeit f()', DEFAULT_MAGIC_CELLS)).toBe(false);
+    expect(isMagicCell('%timeit f()', ['timeit'])).toBe(true);
+  });
+
+  it('prefix_of_a_name_does_not_match', () => {
+    expect(isMagicCell('%running', ['run'])).toBe(false);
+  });
+
+  it('python_after_the_magic_keeps_the_cell_python', () => {
+    expect(isMagicCell('%run ./helpers\n\nx = 1', DEFAULT_MAGIC_CELLS)).toBe(false);
+    expect(isMagicCell('%run ./helpers\n\n%run ./more', DEFAULT_MAGIC_CELLS)).toBe(true);
+  });
+
+  it('body_of_a_whole_cell_magic_is_not_python', () => {
+    expect(isMagicCell('%md-sandbox\n<b>hi</b>', DEFAULT_MAGIC_CELLS)).toBe(true);
+  });
+});
+
+describe('isMagicLine', () => {
+  it('matches_configured_magics_at_the_start_of_the_line', () => {
+    expect(isMagicLine('%fs ls /mnt', DEFAULT_MAGIC_CELLS)).toBe(true);
+    expect(isMagicLine('%timeit f()', DEFAULT_MAGIC_CELLS)).toBe(false);
+    expect(isMagicLine('x = 1  # %run', DEFAULT_MAGIC_CELLS)).toBe(false);
+  });
+
+  it('indented_magics_do_not_match', () => {
+    expect(isMagicLine('    %time f()', ['time'])).toBe(false);
+  });
+});
+
+describe('splitMagicLines', () => {
+  it('magic_lines_get_cells_of_their_own', () => {
+    expect(splitMagicLines('x = 1\n%run ./helpers\ny = helper(x)', ['run'])).toEqual([
+      'x = 1',
+      '%run ./helpers',
+      'y = helper(x)',
+    ]);
+  });
+
+  it('leading_magic_is_split_from_the_python_after_it', () => {
+    expect(splitMagicLines('%fs ls /mnt\n\nprint(1)', DEFAULT_MAGIC_CELLS)).toEqual(['%fs ls /mnt', 'print(1)']);
+  });
+
+  it('consecutive_magic_lines_stay_together', () => {
+    expect(splitMagicLines('%run ./a\n%run ./b\nx = 1', ['run'])).toEqual(['%run ./a\n%run ./b', 'x = 1']);
+  });
+
+  it('unlisted_and_indented_magics_stay_in_the_python', () => {
+    expect(splitMagicLines('%timeit f()\nif x:\n    %run ./a', ['run'])).toEqual(['%timeit f()\nif x:\n    %run ./a']);
+  });
+});
+
+describe('getAnalysisLanguage', () => {
+  it('python_magic_cell_moves_to_magic_language', () => {
+    expect(getAnalysisLanguage('python', '%run ./helpers', ['run'])).toBe(MAGIC_LANGUAGE);
+  });
+
+  it('magic_cell_moves_back_once_the_magic_is_gone', () => {
+    expect(getAnalysisLanguage(MAGIC_LANGUAGE, 'x = 1', ['run'])).toBe('python');
+    expect(getAnalysisLanguage(MAGIC_LANGUAGE, '%run ./helpers', [])).toBe('python');
+  });
+
+  it('magic_cell_moves_back_once_python_is_added', () => {
+    expect(getAnalysisLanguage(MAGIC_LANGUAGE, '%run ./helpers\nx = 1', ['run'])).toBe('python');
+  });
+
+  it('other_languages_are_left_alone', () => {
+    expect(getAnalysisLanguage('sql', '%run ./helpers', ['run'])).toBe('sql');
+    expect(getAnalysisLanguage('python', 'x = 1', ['run'])).toBe('python');
+  });
+});
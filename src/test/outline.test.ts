@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { buildTableOfContents, findHeadings, getHeadingAnchor, getNotebookOutline, isTableOfContents } from '../outline';
+
+const notebook = [
+  '# Databricks notebook source', // 0
+  '# MAGIC %md', // 1
+  '# MAGIC # Sales Report', // 2
+  '', // 3
+  '# COMMAND ----------', // 4
+  '', // 5
+  'import pandas as pd', // 6
+  '', // 7
+  '# COMMAND ----------', // 8
+  '', // 9
+  '# MAGIC %md ## Load data', // 10
+  '', // 11
+  '# COMMAND ----------', // 12
+  '', // 13
+  '# DBTITLE 1,Read orders', // 14
+  'df = spark.table("orders")', // 15
+  '', // 16
+  '# COMMAND ----------', // 17
+  '', // 18
+  '# MAGIC %md', // 19
+  '# MAGIC # Summary', // 20
+  '', // 21
+  '# COMMAND ----------', // 22
+  '', // 23
+  '# MAGIC %sql', // 24
+  '# MAGIC SELECT count(*) FROM orders', // 25
+].join('\n');
+
+describe('findHeadings', () => {
+  it('levels_and_lines', () => {
+    expect(findHeadings('# Title\ntext\n### Detail ###')).toEqual([
+      { level: 1, text: 'Title', line: 0 },
+      { level: 3, text: 'Detail', line: 2 },
+    ]);
+  });
+
+  it('skips_fenced_code_and_hashtags', () => {
+    expect(findHeadings('```python\n# comment\n```\n#hashtag')).toEqual([]);
+  });
+});
+
+describe('getNotebookOutline', () => {
+  it('nests_headings_and_cells', () => {
+    const outline = getNotebookOutline(notebook);
+    const names = (items: typeof outline): unknown[] =>
+      items.map(item => (item.children.length > 0 ? [item.name, names(item.children)] : item.name));
+
+    expect(names(outline)).toEqual([
+      ['Sales Report', ['import pandas as pd', ['Load data', ['Read orders']]]],
+      ['Summary', ['SELECT count(*) FROM orders']],
+    ]);
+  });
+
+  it('file_lines_and_ranges', () => {
+    const [report, summary] = getNotebookOutline(notebook);
+    expect(report).toMatchObject({ kind: 'heading', line: 2, startLine: 2, endLine: 16 });
+    expect(report?.children[1]).toMatchObject({ name: 'Load data', line: 10, endLine: 16 });
+    expect(summary).toMatchObject({ line: 20, endLine: 26 });
+    expect(summary?.children[0]).toMatchObject({ kind: 'cell', detail: 'sql', line: 24 });
+  });
+
+  it('long_cell_names_are_shortened', () => {
+    const [cell] = getNotebookOutline(`# Databricks notebook source\nx = "${'a'.repeat(80)}"`);
+    expect(cell?.name).toHaveLength(60);
+    expect(cell?.name.endsWith('…')).toBe(true);
+  });
+});
+
+describe('buildTableOfContents', () => {
+  it('lists_headings_by_level', () => {
+    const toc = buildTableOfContents([
+      { source: '## Setup', cellKind: 'markup' },
+      { source: 'x = 1', cellKind: 'code' },
+      { source: '### Load data\n### Setup', cellKind: 'markup' },
+    ]);
+    expect(toc).toBe(
+      [
+        '## Table of Contents',
+        '',
+        '- [Setup](#setup)',
+        '  - [Load data](#load-data)',
+        '  - [Setup](#setup-1)',
+      ].join('\n')
+    );
+  });
+
+  it('skips_existing_table_of_contents', () => {
+    const toc = buildTableOfContents([
+      { source: '## Table of Contents\n\n- [Old](#old)', cellKind: 'markup' },
+      { source: '# New', cellKind: 'markup' },
+    ]);
+    expect(toc).toBe('## Table of Contents\n\n- [New](#new)');
+    expect(isTableOfContents(toc ?? '')).toBe(true);
+  });
+
+  it('undefined_without_headings', () => {
+    expect(buildTableOfContents([{ source: 'x = 1', cellKind: 'code' }])).toBeUndefined();
+  });
+});
+
+describe('getHeadingAnchor', () => {
+  it('lowercase_with_dashes', () => {
+    expect(getHeadingAnchor('Load & Clean Data (v2)')).toBe('load--clean-data-v2');
+  });
+});
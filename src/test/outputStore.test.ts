@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCellKeys,
+  parseOutputStore,
+  serializeOutputStore,
+  getSidecarFileName,
+  createOutputStore,
+  hasStoredOutputs,
+} from '../outputStore';
+
+describe('getCellKeys', () => {
+  it('same_source_and_language_returns_same_key', () => {
+    const [a] = getCellKeys([{ source: 'print(1)', languageId: 'python' }]);
+    const [b] = getCellKeys([{ source: 'print(1)\n', languageId: 'python' }]);
+    expect(a).toBe(b);
+  });
+
+  it('different_language_returns_different_key', () => {
+    const keys = getCellKeys([
+      { source: 'SELECT 1', languageId: 'sql' },
+      { source: 'SELECT 1', languageId: 'python' },
+    ]);
+    expect(keys[0]).not.toBe(keys[1]);
+  });
+
+  it('duplicate_cells_get_distinct_keys', () => {
+    const keys = getCellKeys([
+      { source: 'df.show()', languageId: 'python' },
+      { source: 'df.show()', languageId: 'python' },
+    ]);
+    expect(keys[0]).not.toBe(keys[1]);
+  });
+
+  it('key_is_independent_of_cell_position', () => {
+    const [first] = getCellKeys([{ source: 'x = 1', languageId: 'python' }]);
+    const keys = getCellKeys([
+      { source: 'import os', languageId: 'python' },
+      { source: 'x = 1', languageId: 'python' },
+    ]);
+    expect(keys[1]).toBe(first);
+  });
+});
+
+describe('parseOutputStore', () => {
+  it('roundtrip_serialized_store_returns_same_outputs', () => {
+    const store = createOutputStore();
+    store.cells['abc-0'] = {
+      execution_count: 3,
+      outputs: [{ output_type: 'stream', name: 'stdout', text: ['hi\n'] }],
+    };
+
+    const parsed = parseOutputStore(serializeOutputStore(store));
+    expect(parsed).toEqual(store);
+  });
+
+  it('invalid_json_returns_empty_store', () => {
+    const parsed = parseOutputStore('{not json');
+    expect(hasStoredOutputs(parsed)).toBe(false);
+  });
+
+  it('unknown_version_returns_empty_store', () => {
+    const parsed = parseOutputStore(JSON.stringify({ version: 2, cells: { a: { outputs: [] } } }));
+    expect(hasStoredOutputs(parsed)).toBe(false);
+  });
+
+  it('drops_entries_without_outputs_array', () => {
+    const parsed = parseOutputStore(
+      JSON.stringify({ version: 1, cells: { a: { execution_count: 1 }, b: { outputs: [] } } })
+    );
+    expect(Object.keys(parsed.cells)).toEqual(['b']);
+    expect(parsed.cells.b?.execution_count).toBeNull();
+  });
+});
+
+describe('getSidecarFileName', () => {
+  it('returns_hidden_outputs_file_name', () => {
+    expect(getSidecarFileName('notebook.py')).toBe('.notebook.py.outputs.json');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseNotebook, serializeNotebook } from '../parser';
+import { parseNotebook, serializeNotebook, convertNotebook, startsWithDatabricksHeader } from '../parser';
 import { MARKERS } from '../types';
 
 describe('parseNotebook', () => {
@@ -482,3 +482,595 @@ import pandas as pd
     });
   });
 });
+
+describe('cell titles', () => {
+  it('parse_dbtitle_line_sets_cell_title', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# DBTITLE 1,Load Data
+df = spark.table("x")`;
+
+    const result = parseNotebook(input);
+    expect(result.cells).toHaveLength(1);
+    expect(result.cells[0]?.title).toBe('Load Data');
+    expect(result.cells[0]?.titleFlag).toBe(1);
+    expect(result.cells[0]?.source).toBe('df = spark.table("x")');
+  });
+
+  it('parse_dbtitle_before_magic_cell_keeps_magic_language', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# DBTITLE 1,Top Rows
+# MAGIC %sql
+# MAGIC SELECT * FROM t`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.title).toBe('Top Rows');
+    expect(result.cells[0]?.languageId).toBe('sql');
+    expect(result.cells[0]?.source).toBe('SELECT * FROM t');
+  });
+
+  it('parse_cell_without_dbtitle_has_no_title', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# Just a comment
+x = 1`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.title).toBeUndefined();
+    expect(result.cells[0]?.source).toContain('# Just a comment');
+  });
+
+  it('serialize_cell_with_title_emits_exact_dbtitle_line', () => {
+    const input = `# Databricks notebook source
+
+# COMMAND ----------
+
+# DBTITLE 0,Hidden Title, with comma
+# MAGIC %md
+# MAGIC # Heading
+`;
+
+    const parsed = parseNotebook(input);
+    const serialized = serializeNotebook(parsed.cells, 'databricks', true);
+
+    expect(serialized).toContain('# DBTITLE 0,Hidden Title, with comma\n# MAGIC %md');
+    expect(parseNotebook(serialized).cells[0]?.title).toBe('Hidden Title, with comma');
+  });
+});
+
+describe('exact round-trip', () => {
+  const messy = `# Databricks notebook source
+# COMMAND -----
+
+import pandas as pd   
+
+
+# COMMAND ----------------------
+# MAGIC %md
+# MAGIC # Title
+# MAGIC
+# MAGIC text
+
+# COMMAND ----------
+
+# COMMAND ----------
+
+print("hello")
+`;
+
+  it('parse_databricks_cells_keep_original_text', () => {
+    const parsed = parseNotebook(messy);
+    expect(parsed.preamble).toBe('# Databricks notebook source');
+    expect(parsed.cells[0]?.raw).toBe('# COMMAND -----\n\nimport pandas as pd   \n\n');
+    expect([parsed.preamble, ...parsed.cells.map(c => c.raw)].join('\n')).toBe(messy);
+  });
+
+  it('serialize_unchanged_cells_with_original_reproduces_file_exactly', () => {
+    const parsed = parseNotebook(messy);
+    const serialized = serializeNotebook(parsed.cells, 'databricks', true, { original: parsed });
+    expect(serialized).toBe(messy);
+  });
+
+  it('serialize_edited_cell_only_regenerates_that_cell', () => {
+    const parsed = parseNotebook(messy);
+    const edited = parsed.cells.map(cell =>
+      cell.cellKind === 'markup' ? { ...cell, source: '# New Title' } : cell
+    );
+
+    const serialized = serializeNotebook(edited, 'databricks', true, { original: parsed });
+
+    expect(serialized).toContain('# COMMAND -----\n\nimport pandas as pd   \n\n');
+    expect(serialized).toContain('# COMMAND ----------\n\n# MAGIC %md\n# MAGIC # New Title\n');
+    expect(serialized).not.toContain('# COMMAND ----------------------');
+    expect(serialized.endsWith('# MAGIC # New Title\n\n# COMMAND ----------\n\nprint("hello")\n')).toBe(true);
+  });
+
+  it('serialize_reordered_cells_reuses_original_text', () => {
+    const parsed = parseNotebook(messy);
+    const [first, second, third] = parsed.cells;
+    const serialized = serializeNotebook(
+      [third!, first!, second!],
+      'databricks',
+      true,
+      { original: parsed }
+    );
+
+    expect(serialized).toContain('import pandas as pd   \n');
+    expect(parseNotebook(serialized).cells.map(c => c.source)).toEqual([
+      'print("hello")',
+      'import pandas as pd   ',
+      '# Title\n\ntext',
+    ]);
+  });
+
+  it('serialize_cell_moved_to_end_drops_its_extra_blank_lines', () => {
+    const parsed = parseNotebook(messy);
+    const [first, second, third] = parsed.cells;
+    const serialized = serializeNotebook([second!, third!, first!], 'databricks', true, { original: parsed });
+
+    expect(serialized.endsWith('# COMMAND -----\n\nimport pandas as pd   \n')).toBe(true);
+    expect(serialized.endsWith('\n\n')).toBe(false);
+    expect(serialized).toContain('print("hello")\n\n# COMMAND -----');
+  });
+
+  it('serialize_without_original_starts_headerless_output_with_blank_line', () => {
+    const cells = parseNotebook('# Databricks notebook source\n# COMMAND ----------\nx = 1\n').cells;
+    expect(serializeNotebook(cells, 'databricks', false)).toBe('\n# COMMAND ----------\n\nx = 1\n');
+  });
+
+  describe('first cell without delimiter', () => {
+    const exported = '# Databricks notebook source\nimport os\n\n# COMMAND ----------\n\nx = 1\n';
+    const parsed = parseNotebook(exported);
+    const [first, second] = parsed.cells;
+
+    it('serialize_edited_first_cell_stays_after_header', () => {
+      const serialized = serializeNotebook([{ ...first!, source: 'import sys' }, second!], 'databricks', true, {
+        original: parsed,
+      });
+      expect(serialized).toBe('# Databricks notebook source\nimport sys\n\n# COMMAND ----------\n\nx = 1\n');
+    });
+
+    it('serialize_inserted_first_cell_takes_its_place', () => {
+      const inserted = { ...first!, source: 'import sys', raw: undefined };
+      const serialized = serializeNotebook([inserted, first!, second!], 'databricks', true, { original: parsed });
+      expect(serialized).toBe(
+        '# Databricks notebook source\nimport sys\n\n# COMMAND ----------\n\nimport os\n\n# COMMAND ----------\n\nx = 1\n'
+      );
+    });
+
+    it('serialize_deleted_first_cell_moves_next_cell_after_header', () => {
+      const serialized = serializeNotebook([second!], 'databricks', true, { original: parsed });
+      expect(serialized).toBe('# Databricks notebook source\nx = 1\n');
+    });
+
+    it('serialize_edited_first_cell_keeps_crlf_layout', () => {
+      const crlf = parseNotebook(exported.replace(/\n/g, '\r\n'));
+      const [crlfFirst, crlfSecond] = crlf.cells;
+      const serialized = serializeNotebook([{ ...crlfFirst!, source: 'import sys' }, crlfSecond!], 'databricks', true, {
+        original: crlf,
+      });
+      expect(serialized).toBe(
+        '# Databricks notebook source\r\nimport sys\r\n\r\n# COMMAND ----------\r\n\r\nx = 1\r\n'
+      );
+    });
+  });
+
+  it('serialize_headerless_notebook_keeps_leading_cell_text', () => {
+    const input = `import os
+# COMMAND ----------
+x = 1`;
+
+    const parsed = parseNotebook(input);
+    const serialized = serializeNotebook(parsed.cells, 'databricks', false, { original: parsed });
+    expect(serialized).toBe(input);
+  });
+});
+
+describe('r and scala cells', () => {
+  it('parse_r_magic_cell_returns_r_language', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# MAGIC %r
+# MAGIC library(SparkR)
+# MAGIC head(df)`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.languageId).toBe('r');
+    expect(result.cells[0]?.source).toBe('library(SparkR)\nhead(df)');
+  });
+
+  it('parse_scala_magic_cell_returns_scala_language', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# MAGIC %scala
+# MAGIC val df = spark.table("t")`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.languageId).toBe('scala');
+    expect(result.cells[0]?.source).toBe('val df = spark.table("t")');
+  });
+
+  it('parse_run_magic_is_not_mistaken_for_r', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# MAGIC %run ./utils`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.languageId).toBe('python');
+    expect(result.cells[0]?.source).toBe('%run ./utils');
+  });
+
+  it('parse_cell_magic_r_returns_r_language', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+%%R
+summary(cars)`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.languageId).toBe('r');
+    expect(result.cells[0]?.source).toBe('summary(cars)');
+  });
+
+  it('serialize_r_and_scala_cells_add_magic_prefix', () => {
+    const cells = [
+      {
+        source: 'head(df)',
+        cellKind: 'code' as const,
+        languageId: 'r' as const,
+        startLine: 0,
+        endLine: 1,
+      },
+      {
+        source: 'val x = 1',
+        cellKind: 'code' as const,
+        languageId: 'scala' as const,
+        startLine: 1,
+        endLine: 2,
+      },
+    ];
+
+    const result = serializeNotebook(cells, 'databricks', true);
+    expect(result).toContain('# MAGIC %r\n# MAGIC head(df)');
+    expect(result).toContain('# MAGIC %scala\n# MAGIC val x = 1');
+  });
+});
+
+describe('percent format languages', () => {
+  it('parse_commented_cell_magics_return_cell_languages', () => {
+    const input = `# %%
+import pandas as pd
+
+# %%
+# %%sql
+# SELECT *
+# FROM t
+
+# %%
+# %%bash
+# ls -la
+
+# %%
+# %%R
+# head(df)
+
+# %%
+# %%scala
+# val x = 1
+
+# %%
+# %pip install pandas`;
+
+    const result = parseNotebook(input);
+    expect(result.cells.map(c => c.languageId)).toEqual([
+      'python',
+      'sql',
+      'shellscript',
+      'r',
+      'scala',
+      'shellscript',
+    ]);
+    expect(result.cells[1]?.source).toBe('SELECT *\nFROM t');
+    expect(result.cells[2]?.source).toBe('ls -la');
+    expect(result.cells[5]?.source).toBe('%pip install pandas');
+  });
+
+  it('parse_language_tag_returns_language', () => {
+    const input = `# %% [sql]
+SELECT 1
+
+# %% [sh]
+echo hi`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.languageId).toBe('sql');
+    expect(result.cells[0]?.source).toBe('SELECT 1');
+    expect(result.cells[1]?.languageId).toBe('shellscript');
+  });
+
+  it('parse_markdown_and_raw_cells_uncomments_content', () => {
+    const input = `# %% [markdown]
+# # Title
+#
+# Some text
+
+# %% [raw]
+# raw content`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.cellKind).toBe('markup');
+    expect(result.cells[0]?.source).toBe('# Title\n\nSome text');
+    expect(result.cells[1]?.cellKind).toBe('code');
+    expect(result.cells[1]?.languageId).toBe('raw');
+    expect(result.cells[1]?.source).toBe('raw content');
+  });
+
+  it('parse_title_and_metadata_after_cell_marker', () => {
+    const input = `# %% Load data [markdown] tags=["parameters"] slideshow={"slide_type": "slide"}
+# Notes
+
+# %% Setup step key="value"
+x = 1`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.title).toBe('Load data');
+    expect(result.cells[0]?.cellKind).toBe('markup');
+    expect(result.cells[0]?.metadata).toEqual({
+      tags: ['parameters'],
+      slideshow: { slide_type: 'slide' },
+    });
+    expect(result.cells[1]?.title).toBe('Setup step');
+    expect(result.cells[1]?.metadata).toEqual({ key: 'value' });
+  });
+
+  it('parse_python_line_magic_is_uncommented', () => {
+    const input = `# %%
+# %run ./utils
+x = 1`;
+
+    const result = parseNotebook(input);
+    expect(result.cells[0]?.languageId).toBe('python');
+    expect(result.cells[0]?.source).toBe('%run ./utils\nx = 1');
+  });
+
+  it('serialize_percent_comments_out_magics_like_jupytext', () => {
+    const cells = [
+      { source: 'SELECT 1', cellKind: 'code' as const, languageId: 'sql' as const, startLine: 0, endLine: 1 },
+      { source: '%pip install x', cellKind: 'code' as const, languageId: 'shellscript' as const, startLine: 1, endLine: 2 },
+      { source: '# Title\n\ntext', cellKind: 'markup' as const, languageId: 'markdown' as const, startLine: 2, endLine: 3 },
+      { source: '%run ./utils', cellKind: 'code' as const, languageId: 'python' as const, startLine: 3, endLine: 4 },
+    ];
+
+    const result = serializeNotebook(cells, 'percent');
+    expect(result).toBe(`# %%
+# %%sql
+# SELECT 1
+
+# %%
+# %pip install x
+
+# %% [markdown]
+# # Title
+#
+# text
+
+# %%
+# %run ./utils
+`);
+  });
+
+  it('roundtrip_percent_preserves_languages_titles_and_metadata', () => {
+    const input = `# %% Query
+# %%sql
+# SELECT 1
+
+# %% [markdown] tags=["intro"]
+# # Title
+
+# %% [raw]
+# raw
+
+# %%
+# %%scala
+# val x = 1
+
+# %%
+print("hi")
+`;
+
+    const parsed = parseNotebook(input);
+    const serialized = serializeNotebook(parsed.cells, 'percent');
+    expect(serialized).toBe(input);
+  });
+
+  it('roundtrip_databricks_to_percent_keeps_cell_languages', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+# DBTITLE 1,Query
+# MAGIC %sql
+# MAGIC SELECT 1
+
+# COMMAND ----------
+
+# MAGIC %sh
+# MAGIC ls`;
+
+    const parsed = parseNotebook(input);
+    const percent = parseNotebook(serializeNotebook(parsed.cells, 'percent'));
+
+    expect(percent.format).toBe('percent');
+    expect(percent.cells[0]?.languageId).toBe('sql');
+    expect(percent.cells[0]?.title).toBe('Query');
+    expect(percent.cells[1]?.languageId).toBe('shellscript');
+  });
+});
+
+describe('convertNotebook', () => {
+  it('convert_databricks_to_percent_keeps_cells', () => {
+    const input = `# Databricks notebook source
+# COMMAND ----------
+
+import pandas as pd
+
+# COMMAND ----------
+
+# MAGIC %sql
+# MAGIC SELECT 1
+`;
+
+    const result = convertNotebook(input, 'percent');
+    expect(result).toBe(`# %%
+import pandas as pd
+
+# %%
+# %%sql
+# SELECT 1
+`);
+  });
+
+  it('convert_percent_to_databricks_adds_header', () => {
+    const input = `# %% [markdown]
+# # Title
+
+# %%
+x = 1
+`;
+
+    const result = convertNotebook(input, 'databricks');
+    const reparsed = parseNotebook(result);
+    expect(reparsed.hasDatabricksHeader).toBe(true);
+    expect(reparsed.cells.map(c => c.languageId)).toEqual(['markdown', 'python']);
+    expect(result).toContain('# MAGIC %md\n# MAGIC # Title');
+  });
+});
+
+describe('startsWithDatabricksHeader', () => {
+  it('header_first_line_returns_true', () => {
+    expect(startsWithDatabricksHeader('# Databricks notebook source\n# COMMAND ----------')).toBe(true);
+  });
+
+  it('header_not_on_first_line_returns_false', () => {
+    expect(startsWithDatabricksHeader('import os\n# Databricks notebook source')).toBe(false);
+  });
+});
+
+describe('parse warnings', () => {
+  const header = '# Databricks notebook source\n';
+
+  it('clean_notebook_has_no_warnings', () => {
+    const result = parseNotebook(`${header}print(1)\n\n# COMMAND ----------\n\n# MAGIC %md\n# MAGIC # Title\n`);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('magic_block_running_into_code_is_unterminated', () => {
+    const result = parseNotebook(`${header}# MAGIC %sql\n# MAGIC SELECT 1\nprint(1)\n`);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'unterminated-magic', line: 3 })]);
+    expect(result.cells[0]?.languageId).toBe('python');
+  });
+
+  it('magic_line_after_code_is_mixed', () => {
+    const result = parseNotebook(`${header}print(1)\n# MAGIC %sql\n`);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'mixed-magic', line: 2 })]);
+  });
+
+  it('unknown_magic_is_reported', () => {
+    const result = parseNotebook(`${header}# COMMAND ----------\n\n# MAGIC %foo\n# MAGIC bar\n`);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'unknown-magic', line: 3 })]);
+    expect(result.warnings[0]?.message).toContain('%foo');
+  });
+
+  it('known_passthrough_magics_are_not_reported', () => {
+    const result = parseNotebook(`${header}# MAGIC %run ./setup\n\n# COMMAND ----------\n\n# MAGIC %fs ls /\n`);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('bom_is_reported', () => {
+    const result = parseNotebook(`\uFEFF${header}print(1)\n`);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'bom', line: 0 })]);
+  });
+
+  it('first_line_with_the_minority_line_ending_is_reported', () => {
+    const result = parseNotebook(`${header}a = 1\r\nb = 2\nc = 3\n`);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'mixed-line-endings', line: 1 })]);
+    expect(result.warnings[0]?.message).toContain('saved as LF');
+  });
+
+  it('consistent_crlf_is_not_reported', () => {
+    expect(parseNotebook('# Databricks notebook source\r\nprint(1)\r\n').warnings).toEqual([]);
+  });
+
+  it('warning_lines_account_for_cell_titles', () => {
+    const result = parseNotebook(`${header}# DBTITLE 1,Setup\n# MAGIC %foo\n`);
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'unknown-magic', line: 2 })]);
+  });
+});
+
+describe('text style', () => {
+  it('lf_file_without_bom_is_detected', () => {
+    expect(parseNotebook('# %%\nprint(1)\n').textStyle).toEqual({ eol: 'lf', bom: false, finalNewline: true });
+  });
+
+  it('bom_is_detected_and_stripped_before_parsing', () => {
+    const result = parseNotebook('\uFEFF# Databricks notebook source\nprint(1)');
+    expect(result.textStyle).toEqual({ eol: 'lf', bom: true, finalNewline: false });
+    expect(result.hasDatabricksHeader).toBe(true);
+    expect(result.cells[0]?.source).toBe('print(1)');
+  });
+
+  it('empty_file_gets_a_final_newline', () => {
+    expect(parseNotebook('').textStyle).toEqual({ eol: 'lf', bom: false, finalNewline: true });
+    expect(parseNotebook('\uFEFF').textStyle.finalNewline).toBe(true);
+  });
+
+  it('crlf_is_detected_and_removed_from_cell_sources', () => {
+    const result = parseNotebook('# %%\r\nprint(1)\r\nprint(2)\r\n');
+    expect(result.textStyle.eol).toBe('crlf');
+    expect(result.cells[0]?.source).toBe('print(1)\nprint(2)');
+  });
+
+  it('mostly_crlf_file_is_crlf', () => {
+    expect(parseNotebook('a\r\nb\r\nc\nd').textStyle.eol).toBe('crlf');
+  });
+
+  it.each([
+    '# Databricks notebook source\r\nprint(1)\r\n\r\n# COMMAND ----------\r\n\r\n# MAGIC %md\r\n# MAGIC Hi\r\n',
+    '\uFEFF# Databricks notebook source\nprint(1)\n\n# COMMAND ----------\n\nprint(2)',
+    '\uFEFF# %%\r\nprint(1)\r\n\r\n# %% [markdown]\r\n# Hi\r\n',
+  ])('unchanged_notebook_roundtrips_exactly_%#', content => {
+    const parsed = parseNotebook(content);
+    expect(serializeNotebook(parsed.cells, parsed.format, parsed.hasDatabricksHeader, { original: parsed })).toBe(
+      content
+    );
+  });
+
+  it('edited_crlf_notebook_is_written_with_crlf_only', () => {
+    const parsed = parseNotebook('# Databricks notebook source\r\nprint(1)\r\n');
+    const cells = [
+      ...parsed.cells,
+      { source: 'print(2)', cellKind: 'code' as const, languageId: 'python' as const, startLine: 0, endLine: 1 },
+    ];
+    const result = serializeNotebook(cells, 'databricks', true, { original: parsed });
+    expect(result).toContain('print(2)\r\n');
+    expect(result.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('missing_final_newline_is_kept_after_edit', () => {
+    const parsed = parseNotebook('# Databricks notebook source\nprint(1)');
+    const cells = parsed.cells.map(cell => ({ ...cell, source: 'print(2)', raw: undefined }));
+    const result = serializeNotebook(cells, 'databricks', true, { original: parsed });
+    expect(result.endsWith('print(2)')).toBe(true);
+  });
+
+  it('conversion_keeps_line_endings_and_bom', () => {
+    const result = convertNotebook('\uFEFF# Databricks notebook source\r\nprint(1)\r\n', 'percent');
+    expect(result).toBe('\uFEFF# %%\r\nprint(1)\r\n');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRunReferences,
+  getRunCellTarget,
+  getRunTargetCandidates,
+  isRelativeRunTarget,
+  resolveRunSources,
+} from '../runMagic';
+
+describe('findRunReferences', () => {
+  it('finds_target_and_its_columns', () => {
+    expect(findRunReferences('%run ./utils/helpers')).toEqual([
+      { target: './utils/helpers', line: 0, start: 5, end: 20 },
+    ]);
+  });
+
+  it('ignores_arguments_after_target', () => {
+    const [reference] = findRunReferences('%run ../setup $env="dev"');
+    expect(reference?.target).toBe('../setup');
+  });
+
+  it('strips_quotes_from_target', () => {
+    expect(findRunReferences('%run "./my notebook"')).toEqual([
+      { target: './my notebook', line: 0, start: 6, end: 19 },
+    ]);
+  });
+
+  it('reports_line_of_each_magic', () => {
+    const references = findRunReferences('# setup\n%run ./a\nprint(1)\n  %run ./b');
+    expect(references.map(r => [r.target, r.line])).toEqual([
+      ['./a', 1],
+      ['./b', 3],
+    ]);
+  });
+
+  it('ignores_other_magics_and_code', () => {
+    expect(findRunReferences('%runner ./a\nx = "%run ./b"\n%sql')).toEqual([]);
+  });
+});
+
+describe('getRunTargetCandidates', () => {
+  it('target_without_extension_tries_py_first', () => {
+    expect(getRunTargetCandidates('/repo/jobs/main.py', './utils/helpers')).toEqual([
+      '/repo/jobs/utils/helpers.py',
+      '/repo/jobs/utils/helpers',
+    ]);
+  });
+
+  it('parent_directory_is_resolved', () => {
+    expect(getRunTargetCandidates('/repo/jobs/main.py', '../shared.py')).toEqual(['/repo/shared.py']);
+  });
+
+  it('bare_name_is_relative', () => {
+    expect(getRunTargetCandidates('/repo/main.py', 'config')).toEqual(['/repo/config.py', '/repo/config']);
+  });
+
+  it('absolute_workspace_target_has_no_candidates', () => {
+    expect(isRelativeRunTarget('/Repos/me/project/utils')).toBe(false);
+    expect(getRunTargetCandidates('/repo/main.py', '/Repos/me/project/utils')).toEqual([]);
+  });
+
+  it('parameterized_target_has_no_candidates', () => {
+    expect(getRunTargetCandidates('/repo/main.py', './$env/config')).toEqual([]);
+  });
+});
+
+describe('getRunCellTarget', () => {
+  it('single_run_line_returns_target', () => {
+    expect(getRunCellTarget({ source: '%run ./setup\n', cellKind: 'code', languageId: 'python' })).toBe('./setup');
+  });
+
+  it('run_with_other_code_returns_undefined', () => {
+    expect(getRunCellTarget({ source: '%run ./setup\nx = 1', cellKind: 'code', languageId: 'python' })).toBe(
+      undefined
+    );
+  });
+
+  it('markdown_mentioning_run_returns_undefined', () => {
+    expect(getRunCellTarget({ source: '%run ./setup', cellKind: 'markup', languageId: 'markdown' })).toBe(
+      undefined
+    );
+  });
+});
+
+describe('resolveRunSources', () => {
+  const header = '# Databricks notebook source\n';
+  const cell = (source: string): string => `# COMMAND ----------\n\n${source}\n\n`;
+
+  function reader(files: Record<string, string>): (path: string) => Promise<string | undefined> {
+    return path => Promise.resolve(files[path]);
+  }
+
+  it('inlines_python_cells_of_target', async () => {
+    const files = {
+      '/repo/utils.py': header + cell('import os') + cell('# MAGIC %md\n# MAGIC Docs') + cell('x = 1'),
+    };
+    const sources = await resolveRunSources('/repo/main.py', header + cell('%run ./utils'), {
+      readNotebook: reader(files),
+    });
+    expect(sources).toEqual({ './utils': '# %run ./utils (inlined for local execution)\n\nimport os\n\nx = 1' });
+  });
+
+  it('expands_nested_runs_relative_to_each_notebook', async () => {
+    const files = {
+      '/repo/jobs/a.py': header + cell('%run ../lib/b'),
+      '/repo/lib/b.py': header + cell('y = 2'),
+    };
+    const sources = await resolveRunSources('/repo/main.py', header + cell('%run ./jobs/a'), {
+      readNotebook: reader(files),
+    });
+    expect(sources['./jobs/a']).toContain('# %run ../lib/b (inlined for local execution)\n\ny = 2');
+  });
+
+  it('circular_reference_is_skipped', async () => {
+    const files = {
+      '/repo/a.py': header + cell('%run ./b'),
+      '/repo/b.py': header + cell('%run ./a'),
+    };
+    const sources = await resolveRunSources('/repo/a.py', files['/repo/a.py'], { readNotebook: reader(files) });
+    expect(sources['./b']).toContain('# %run ./a skipped: circular reference');
+  });
+
+  it('chain_deeper_than_limit_is_skipped', async () => {
+    const files = {
+      '/repo/a.py': header + cell('%run ./b'),
+      '/repo/b.py': header + cell('%run ./c'),
+      '/repo/c.py': header + cell('z = 3'),
+    };
+    const sources = await resolveRunSources('/repo/main.py', header + cell('%run ./a'), {
+      readNotebook: reader(files),
+      maxDepth: 2,
+    });
+    expect(sources['./a']).toContain('# %run ./c skipped: more than 2 levels of nested %run');
+    expect(sources['./a']).not.toContain('z = 3');
+  });
+
+  it('missing_target_is_left_out', async () => {
+    const sources = await resolveRunSources('/repo/main.py', header + cell('%run ./missing'), {
+      readNotebook: reader({}),
+    });
+    expect(sources).toEqual({});
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { findSqlParameters, findTableNames, formatSql } from '../sql';
+
+describe('formatSql', () => {
+  it('keeps_keyword_named_columns_as_written', () => {
+    expect(formatSql('select date, left, right, t.left from t left outer join u on left.id = u.id')).toBe(
+      ['SELECT date,', '  left,', '  right,', '  t.left', 'FROM t', 'LEFT OUTER JOIN u ON left.id = u.id'].join('\n')
+    );
+  });
+
+  it('clauses_on_their_own_lines', () => {
+    expect(formatSql('select a, b from t left join u on t.id = u.id where x = 1 and y = 2 order by a limit 5')).toBe(
+      [
+        'SELECT a,',
+        '  b',
+        'FROM t',
+        'LEFT JOIN u ON t.id = u.id',
+        'WHERE x = 1',
+        '  AND y = 2',
+        'ORDER BY a',
+        'LIMIT 5',
+      ].join('\n')
+    );
+  });
+
+  it('keeps_strings_comments_and_parameters', () => {
+    expect(formatSql("select * from t -- latest\nwhere name = 'select from' and env = :env")).toBe(
+      ['SELECT *', 'FROM t -- latest', "WHERE name = 'select from'", '  AND env = :env'].join('\n')
+    );
+  });
+
+  it('keeps_subqueries_and_case_on_one_line', () => {
+    expect(formatSql('select case when a then 1 else 2 end c from (select a from b where c = 1)')).toBe(
+      ['SELECT CASE WHEN a THEN 1 ELSE 2 END c', 'FROM (SELECT a FROM b WHERE c = 1)'].join('\n')
+    );
+  });
+
+  it('between_and_is_not_split', () => {
+    expect(formatSql('select a from t where a between 1 and 2 and b = 3')).toBe(
+      ['SELECT a', 'FROM t', 'WHERE a BETWEEN 1 AND 2', '  AND b = 3'].join('\n')
+    );
+  });
+
+  it('statements_separated_by_blank_line', () => {
+    expect(formatSql('use main; select 1;')).toBe(['use main;', '', 'SELECT 1;'].join('\n'));
+  });
+
+  it('qualified_names_are_not_keywords', () => {
+    expect(formatSql('select t.order, t.desc from t')).toBe(['SELECT t.order,', '  t.desc', 'FROM t'].join('\n'));
+  });
+
+  it('merge_conditions_on_their_own_lines', () => {
+    expect(formatSql('merge into t using s on t.id = s.id when matched then update set * when not matched then insert *')).toBe(
+      ['MERGE INTO t USING s ON t.id = s.id', 'WHEN MATCHED THEN UPDATE SET *', 'WHEN NOT MATCHED THEN INSERT *'].join('\n')
+    );
+  });
+
+  it('formatting_is_stable', () => {
+    const formatted = formatSql('select a, count(*) n from t group by a having count(*) > 1');
+    expect(formatSql(formatted)).toBe(formatted);
+  });
+});
+
+describe('findTableNames', () => {
+  it('spark_table_and_save_as_table', () => {
+    const source = [
+      'df = spark.table("main.sales.orders")',
+      "spark.read.table('raw_events')",
+      'df.write.mode("overwrite").saveAsTable("main.sales.summary")',
+      'df.createOrReplaceTempView("recent")',
+    ].join('\n');
+    expect(findTableNames(source)).toEqual(['main.sales.orders', 'raw_events', 'main.sales.summary', 'recent']);
+  });
+
+  it('create_table_and_view_statements', () => {
+    const source = [
+      '# MAGIC CREATE OR REPLACE TABLE main.sales.daily AS SELECT 1',
+      'CREATE TEMPORARY VIEW IF NOT EXISTS `staging` AS SELECT 1',
+      'create view v1 as select 1',
+    ].join('\n');
+    expect(findTableNames(source)).toEqual(['main.sales.daily', 'staging', 'v1']);
+  });
+
+  it('names_are_reported_once', () => {
+    expect(findTableNames('spark.table("a")\nspark.table("a")')).toEqual(['a']);
+  });
+});
+
+describe('findSqlParameters', () => {
+  it('named_parameters_and_variables', () => {
+    const sql = 'SELECT * FROM ${catalog}.t WHERE id = :id';
+    expect(findSqlParameters(sql)).toEqual([
+      { name: 'catalog', kind: 'variable', start: 14, end: 24 },
+      { name: 'id', kind: 'named', start: 38, end: 41 },
+    ]);
+  });
+
+  it('variables_inside_strings_but_not_named_parameters', () => {
+    const sql = "SELECT ':skip', '${env}' -- :also_skipped";
+    expect(findSqlParameters(sql).map(parameter => parameter.name)).toEqual(['env']);
+  });
+
+  it('casts_and_json_paths_are_not_parameters', () => {
+    expect(findSqlParameters('SELECT x::int, y:field, `z`:a FROM t WHERE n = :n')).toEqual([
+      { name: 'n', kind: 'named', start: 47, end: 49 },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { findMagicPrefixes, getCellBodyRange, getCellFoldingRanges, isRunnablePythonCell } from '../textCells';
+import { parseNotebook } from '../parser';
+
+const content = [
+  '# Databricks notebook source', // 0
+  '# DBTITLE 1,Imports', // 1
+  'import os', // 2
+  'import sys', // 3
+  '', // 4
+  '# COMMAND ----------', // 5
+  '', // 6
+  '# MAGIC %sql', // 7
+  '# MAGIC SELECT 1', // 8
+  '# MAGIC', // 9
+  '# MAGIC FROM t', // 10
+  '', // 11
+  '# COMMAND ----------', // 12
+  '', // 13
+  '# MAGIC %run ./helpers', // 14
+  '', // 15
+  '# COMMAND ----------', // 16
+  '', // 17
+  'x = 1', // 18
+].join('\n');
+const lines = content.split('\n');
+const { cells } = parseNotebook(content);
+
+describe('getCellFoldingRanges', () => {
+  it('one_range_per_multi_line_cell', () => {
+    expect(getCellFoldingRanges(cells)).toEqual([
+      { start: 1, end: 3 },
+      { start: 7, end: 10 },
+    ]);
+  });
+});
+
+describe('findMagicPrefixes', () => {
+  it('prefix_with_and_without_trailing_space', () => {
+    expect(findMagicPrefixes(lines)).toEqual([
+      { line: 7, length: 8 },
+      { line: 8, length: 8 },
+      { line: 9, length: 7 },
+      { line: 10, length: 8 },
+      { line: 14, length: 8 },
+    ]);
+  });
+
+  it('ignores_other_comments', () => {
+    expect(findMagicPrefixes(['# MAGICAL', '#  MAGIC x', 'x = "# MAGIC "'])).toEqual([]);
+  });
+});
+
+describe('getCellBodyRange', () => {
+  it('skips_title_line', () => {
+    expect(getCellBodyRange(cells[0] ?? { startLine: 0, endLine: 0 }, lines)).toEqual({ start: 2, end: 3 });
+  });
+
+  it('whole_cell_without_title', () => {
+    expect(getCellBodyRange(cells[3] ?? { startLine: 0, endLine: 0 }, lines)).toEqual({ start: 18, end: 18 });
+  });
+});
+
+describe('isRunnablePythonCell', () => {
+  it('plain_python_cells_only', () => {
+    expect(cells.map(cell => isRunnablePythonCell(cell, lines))).toEqual([true, false, false, true]);
+  });
+});
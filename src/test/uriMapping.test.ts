@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { baseName, toNotebookUriComponents, toRealUriComponents, UriComponents } from '../uriMapping';
+import { SCHEME } from '../constants';
+
+function uri(parts: Partial<UriComponents>): UriComponents {
+  return { scheme: 'file', authority: '', path: '', query: '', fragment: '', ...parts };
+}
+
+describe('toNotebookUriComponents', () => {
+  it('local_file_keeps_path_without_query', () => {
+    const result = toNotebookUriComponents(uri({ path: '/home/me/nb.py' }));
+    expect(result).toEqual(uri({ scheme: SCHEME, path: '/home/me/nb.py' }));
+  });
+
+  it('remote_file_records_scheme_and_keeps_authority', () => {
+    const result = toNotebookUriComponents(
+      uri({ scheme: 'vscode-remote', authority: 'ssh-remote+host', path: '/x/nb.py' })
+    );
+    expect(result.scheme).toBe(SCHEME);
+    expect(result.authority).toBe('ssh-remote+host');
+    expect(result.path).toBe('/x/nb.py');
+    expect(result.query).toBe('scheme=vscode-remote');
+  });
+
+  it('unc_file_keeps_authority', () => {
+    const result = toNotebookUriComponents(uri({ authority: 'server', path: '/share/nb.py' }));
+    expect(result.authority).toBe('server');
+    expect(result.query).toBe('');
+  });
+});
+
+describe('toRealUriComponents', () => {
+  it('virtual_uri_without_query_maps_to_file', () => {
+    const result = toRealUriComponents(uri({ scheme: SCHEME, path: '/home/me/nb.py' }));
+    expect(result).toEqual(uri({ path: '/home/me/nb.py' }));
+  });
+
+  it.each([
+    uri({ path: '/home/me/nb.py' }),
+    uri({ scheme: 'vscode-remote', authority: 'wsl+Ubuntu', path: '/home/me/nb.py' }),
+    uri({ scheme: 'vscode-remote', authority: 'dev-container+abc', path: '/workspaces/nb.py' }),
+    uri({ scheme: 'vscode-vfs', authority: 'github', path: '/owner/repo/nb.py', query: 'ref=main&x=a b' }),
+    uri({ scheme: 'untitled', path: 'Untitled-1' }),
+  ])('roundtrip_$scheme_$authority_returns_original', real => {
+    expect(toRealUriComponents(toNotebookUriComponents(real))).toEqual(real);
+  });
+});
+
+describe('baseName', () => {
+  it('last_path_segment_is_the_file_name', () => {
+    expect(baseName(uri({ path: '/home/me/nb.py' }))).toBe('nb.py');
+    expect(baseName(uri({ scheme: 'untitled', path: 'Untitled-1' }))).toBe('Untitled-1');
+  });
+});
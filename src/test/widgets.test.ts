@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildWidgetShim, findWidgets } from '../widgets';
+import { parseNotebook } from '../parser';
+import { ParsedCell } from '../types';
+
+function pythonCell(source: string): ParsedCell {
+  return { source, cellKind: 'code', languageId: 'python', startLine: 0, endLine: 1 };
+}
+
+describe('findWidgets', () => {
+  it('text_widget_with_positional_arguments', () => {
+    expect(findWidgets([pythonCell('dbutils.widgets.text("env", "dev", "Environment")')])).toEqual([
+      { name: 'env', type: 'text', defaultValue: 'dev', label: 'Environment' },
+    ]);
+  });
+
+  it('dropdown_widget_with_choices', () => {
+    expect(findWidgets([pythonCell("dbutils.widgets.dropdown('mode', 'fast', ['fast', 'slow'])")])).toEqual([
+      { name: 'mode', type: 'dropdown', defaultValue: 'fast', choices: ['fast', 'slow'] },
+    ]);
+  });
+
+  it('keyword_arguments_are_recognized', () => {
+    const [widget] = findWidgets([
+      pythonCell('dbutils.widgets.multiselect(name="days", defaultValue="Mon", choices=["Mon", "Tue"], label="Days")'),
+    ]);
+    expect(widget).toEqual({
+      name: 'days',
+      type: 'multiselect',
+      defaultValue: 'Mon',
+      choices: ['Mon', 'Tue'],
+      label: 'Days',
+    });
+  });
+
+  it('non_literal_arguments_are_skipped', () => {
+    expect(findWidgets([pythonCell('dbutils.widgets.text("env", DEFAULT_ENV)')])).toEqual([]);
+  });
+
+  it('commented_and_non_python_cells_are_skipped', () => {
+    const cells: ParsedCell[] = [
+      pythonCell('# dbutils.widgets.text("a", "1")'),
+      { ...pythonCell('dbutils.widgets.text("b", "2")'), cellKind: 'markup', languageId: 'markdown' },
+    ];
+    expect(findWidgets(cells)).toEqual([]);
+  });
+
+  it('first_definition_of_a_name_wins', () => {
+    const widgets = findWidgets([
+      pythonCell('dbutils.widgets.text("env", "dev")\ndbutils.widgets.text("env", "prod")'),
+    ]);
+    expect(widgets.map(w => w.defaultValue)).toEqual(['dev']);
+  });
+
+  it('escaped_quotes_are_unescaped', () => {
+    const [widget] = findWidgets([pythonCell('dbutils.widgets.text("q", "it\\"s, fine")')]);
+    expect(widget?.defaultValue).toBe('it"s, fine');
+  });
+
+  it('parse_notebook_exposes_widgets', () => {
+    const parsed = parseNotebook(
+      '# Databricks notebook source\ndbutils.widgets.text("env", "dev")\n\n# COMMAND ----------\n\nenv = dbutils.widgets.get("env")\n'
+    );
+    expect(parsed.widgets.map(w => w.name)).toEqual(['env']);
+  });
+});
+
+describe('buildWidgetShim', () => {
+  it('lists_widget_values_and_defines_local_dbutils', () => {
+    const shim = buildWidgetShim([
+      { name: 'env', type: 'text', defaultValue: 'dev' },
+      { name: 'mode', type: 'dropdown', defaultValue: 'fast', choices: ['fast', 'slow'] },
+    ]);
+    expect(shim).toContain('    "env": "dev",\n    "mode": "fast",  # dropdown: fast, slow\n}');
+    expect(shim).toContain('except NameError:');
+    expect(shim).toContain('dbutils = _LocalDbutils(widget_values)');
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  CodeLens,
+  CodeLensProvider,
+  EventEmitter,
+  ExtensionContext,
+  FoldingRange,
+  FoldingRangeKind,
+  FoldingRangeProvider,
+  NotebookRange,
+  NotebookEditorRevealType,
+  Range,
+  Selection,
+  TextDocument,
+  TextEditor,
+  TextEditorDecorationType,
+  Uri,
+  commands,
+  languages,
+  window,
+  workspace,
+} from 'vscode';
+import { getIpynbCellMetadata } from './cellMetadata';
+import { getSettings } from './config';
+import { toNotebookUri } from './filesystem';
+import { toNotebookCellIndex } from './ipynbConverter';
+import { parseNotebook, startsWithDatabricksHeader } from './parser';
+import { findMagicPrefixes, getCellBodyRange, getCellFoldingRanges, isRunnablePythonCell } from './textCells';
+
+/**
+ * Python files opened as text (Databricks notebooks are filtered further below)
+ */
+const PYTHON_SELECTOR = { language: 'python' };
+
+/**
+ * Whether a text document is a Databricks notebook file (not a notebook cell)
+ */
+function isNotebookFile(document: TextDocument): boolean {
+  return document.uri.scheme !== 'vscode-notebook-cell' && startsWithDatabricksHeader(document.getText());
+}
+
+/**
+ * Folds each cell of a Databricks .py file
+ */
+class CellFoldingProvider implements FoldingRangeProvider {
+  provideFoldingRanges(document: TextDocument): FoldingRange[] {
+    if (!isNotebookFile(document)) {
+      return [];
+    }
+    return getCellFoldingRanges(parseNotebook(document.getText()).cells).map(
+      range => new FoldingRange(range.start, range.end, FoldingRangeKind.Region)
+    );
+  }
+}
+
+/**
+ * Adds "Open in Notebook" and run actions above each cell of a Databricks .py file
+ */
+class CellCodeLensProvider implements CodeLensProvider {
+  private readonly changeEmitter = new EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  provideCodeLenses(document: TextDocument): CodeLens[] {
+    if (!getSettings().cellCodeLens || !isNotebookFile(document)) {
+      return [];
+    }
+
+    const lines = document.getText().split(/\r?\n/);
+    const uri = document.uri.toString();
+
+    return parseNotebook(document.getText()).cells.flatMap((cell, index) => {
+      const range = new Range(cell.startLine, 0, cell.startLine, 0);
+      const lens = (title: string, command: string): CodeLens =>
+        new CodeLens(range, { title, command, arguments: [uri, index] });
+
+      const lenses = [lens('Open in Notebook', 'databricks.openCellInNotebook')];
+      if (isRunnablePythonCell(cell, lines)) {
+        lenses.push(
+          lens('Run in Terminal', 'databricks.runCellInTerminal'),
+          lens('Run in Interactive Window', 'databricks.runCellInInteractiveWindow')
+        );
+      }
+      return lenses;
+    });
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Open a .py file as a notebook and select one of its cells
+ */
+async function openCellInNotebook(uri: string, index: number): Promise<void> {
+  const fileUri = Uri.parse(uri);
+  await commands.executeCommand('databricks.openAsNotebook', fileUri);
+
+  // Opening can fail and leave another notebook active
+  const editor = window.activeNotebookEditor;
+  if (!editor || editor.notebook.uri.toString() !== toNotebookUri(fileUri).toString()) {
+    return;
+  }
+
+  // Cells added for local use (the widget shim) come before the file's cells
+  const notebookIndex = toNotebookCellIndex(editor.notebook.getCells().map(getIpynbCellMetadata), index);
+  if (notebookIndex !== undefined) {
+    const range = new NotebookRange(notebookIndex, notebookIndex + 1);
+    editor.selections = [range];
+    editor.revealRange(range, NotebookEditorRevealType.InCenterIfOutsideViewport);
+  }
+}
+
+/**
+ * Select a cell's code in its text editor and run it with a Python or
+ * Jupyter extension command that runs the selection
+ */
+async function runCellSelection(uri: string, index: number, command: string, extension: string): Promise<void> {
+  const document = await workspace.openTextDocument(Uri.parse(uri));
+  const cell = parseNotebook(document.getText()).cells[index];
+  if (!cell) {
+    return;
+  }
+
+  const { start, end } = getCellBodyRange(cell, document.getText().split(/\r?\n/));
+  const editor = await window.showTextDocument(document);
+  editor.selection = new Selection(start, 0, end, document.lineAt(end).text.length);
+
+  try {
+    await commands.executeCommand(command);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    void window.showErrorMessage(`Failed to run cell (requires the ${extension} extension): ${message}`);
+  }
+}
+
+/**
+ * Dim the `# MAGIC ` prefixes of a Databricks .py file shown in an editor
+ */
+function updateMagicDecorations(editor: TextEditor, decoration: TextEditorDecorationType): void {
+  const { document } = editor;
+  const prefixes = isNotebookFile(document) ? findMagicPrefixes(document.getText().split(/\r?\n/)) : [];
+  editor.setDecorations(decoration, prefixes.map(prefix => new Range(prefix.line, 0, prefix.line, prefix.length)));
+}
+
+/**
+ * Register folding, CodeLens and `# MAGIC` decorations for Databricks .py
+ * files edited as text
+ */
+export function registerTextCellFeatures(context: ExtensionContext): void {
+  const codeLenses = new CellCodeLensProvider();
+  const magicDecoration = window.createTextEditorDecorationType({ opacity: '0.45' });
+  const decorate = (editor: TextEditor): void => updateMagicDecorations(editor, magicDecoration);
+
+  context.subscriptions.push(
+    codeLenses,
+    magicDecoration,
+    languages.registerFoldingRangeProvider(PYTHON_SELECTOR, new CellFoldingProvider()),
+    languages.registerCodeLensProvider(PYTHON_SELECTOR, codeLenses),
+    commands.registerCommand('databricks.openCellInNotebook', openCellInNotebook),
+    commands.registerCommand('databricks.runCellInTerminal', (uri: string, index: number) =>
+      runCellSelection(uri, index, 'python.execSelectionInTerminal', 'Python')
+    ),
+    commands.registerCommand('databricks.runCellInInteractiveWindow', (uri: string, index: number) =>
+      runCellSelection(uri, index, 'jupyter.execSelectionInteractive', 'Jupyter')
+    ),
+    window.onDidChangeVisibleTextEditors(editors => editors.forEach(decorate)),
+    workspace.onDidChangeTextDocument(event => {
+      window.visibleTextEditors.filter(editor => editor.document === event.document).forEach(decorate);
+    }),
+    workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('databricksNotebook.cellCodeLens')) {
+        codeLenses.refresh();
+      }
+    })
+  );
+
+  window.visibleTextEditors.forEach(decorate);
+}
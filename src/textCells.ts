@@ -0,0 +1,80 @@
+/**
+ * Cell structure of a Databricks notebook viewed as a plain .py file, for
+ * folding, CodeLens and decorations in the text editor.
+ */
+
+import { MARKERS, ParsedCell } from './types';
+
+/**
+ * A range of file lines (0-indexed, end inclusive)
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A `# MAGIC` prefix on a file line
+ */
+export interface MagicPrefix {
+  line: number;
+  /** Length of the prefix, including the space after `# MAGIC` if present */
+  length: number;
+}
+
+/**
+ * Folding range of each cell spanning more than one line. The cell's first
+ * line (its title, magic or first code line) stays visible when folded.
+ */
+export function getCellFoldingRanges(cells: Pick<ParsedCell, 'startLine' | 'endLine'>[]): LineRange[] {
+  return cells
+    .filter(cell => cell.endLine - cell.startLine > 1)
+    .map(cell => ({ start: cell.startLine, end: cell.endLine - 1 }));
+}
+
+/**
+ * Find the `# MAGIC` prefixes of a file's lines
+ */
+export function findMagicPrefixes(lines: string[]): MagicPrefix[] {
+  const prefix = MARKERS.MAGIC_PREFIX.trimEnd();
+  const prefixes: MagicPrefix[] = [];
+
+  lines.forEach((text, line) => {
+    if (text === prefix) {
+      prefixes.push({ line, length: prefix.length });
+    } else if (text.startsWith(MARKERS.MAGIC_PREFIX)) {
+      prefixes.push({ line, length: MARKERS.MAGIC_PREFIX.length });
+    }
+  });
+
+  return prefixes;
+}
+
+/**
+ * Lines of a cell's code, without its `# DBTITLE` line and the blank lines after it
+ */
+export function getCellBodyRange(cell: Pick<ParsedCell, 'startLine' | 'endLine'>, lines: string[]): LineRange {
+  let start = cell.startLine;
+  if (MARKERS.DBTITLE_REGEX.test(lines[start] ?? '')) {
+    start++;
+    while (start < cell.endLine - 1 && (lines[start]?.trim() ?? '') === '') {
+      start++;
+    }
+  }
+  return { start, end: Math.max(start, cell.endLine - 1) };
+}
+
+/**
+ * Whether a cell is plain Python that can run outside Databricks (no
+ * `# MAGIC` lines such as `%run` or `%pip`)
+ */
+export function isRunnablePythonCell(
+  cell: Pick<ParsedCell, 'startLine' | 'endLine' | 'cellKind' | 'languageId'>,
+  lines: string[]
+): boolean {
+  if (cell.cellKind !== 'code' || cell.languageId !== 'python') {
+    return false;
+  }
+  const { start, end } = getCellBodyRange(cell, lines);
+  return !lines.slice(start, end + 1).some(line => line.startsWith(MARKERS.MAGIC_PREFIX.trimEnd()));
+}
@@ -4,9 +4,9 @@
 export type NotebookFormat = 'databricks' | 'percent' | 'plain';
 
 /**
- * Supported cell languages
+ * Supported cell languages ('raw' is used for raw, never-executed cells)
  */
-export type CellLanguage = 'python' | 'sql' | 'markdown' | 'shellscript' | 'r' | 'scala';
+export type CellLanguage = 'python' | 'sql' | 'markdown' | 'shellscript' | 'r' | 'scala' | 'raw';
 
 /**
  * A parsed cell from a notebook file
@@ -22,6 +22,64 @@ export interface ParsedCell {
   startLine: number;
   /** Ending line number in the original file (0-indexed, exclusive) */
   endLine: number;
+  /** Cell title from a Databricks `# DBTITLE` line or a percent `# %% Title` marker */
+  title?: string;
+  /** Numeric flag from the `# DBTITLE` line (Databricks writes 1) */
+  titleFlag?: number;
+  /**
+   * Original text of the cell, from its `# COMMAND` line up to the next one
+   * (Databricks format only). Used to write unchanged cells back verbatim.
+   */
+  raw?: string;
+  /** Cell metadata from percent format `key=value` pairs */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Line ending and byte order mark details of a notebook file, reproduced on save
+ */
+export interface TextStyle {
+  /** Line ending used in the file (the majority, if mixed) */
+  eol: 'lf' | 'crlf';
+  /** Whether the file starts with a UTF-8 byte order mark */
+  bom: boolean;
+  /** Whether the file ends with a line ending */
+  finalNewline: boolean;
+}
+
+/**
+ * Kinds of Databricks widgets
+ */
+export type WidgetType = 'text' | 'dropdown' | 'combobox' | 'multiselect';
+
+/**
+ * A widget defined with `dbutils.widgets.<type>(name, defaultValue, ...)`
+ */
+export interface WidgetDefinition {
+  name: string;
+  type: WidgetType;
+  defaultValue: string;
+  /** Label shown in the Databricks UI */
+  label?: string;
+  /** Allowed values (dropdown, combobox and multiselect widgets) */
+  choices?: string[];
+}
+
+/**
+ * Kinds of problems found while parsing a notebook file
+ */
+export type ParseWarningCode = 'mixed-magic' | 'unterminated-magic' | 'unknown-magic' | 'bom' | 'mixed-line-endings';
+
+/**
+ * A problem found while parsing a notebook file. Parsing still succeeds,
+ * but the notebook may not look or save the way the user expects.
+ */
+export interface ParseWarning {
+  code: ParseWarningCode;
+  /** Human-readable description */
+  message: string;
+  /** Line the problem was found on (0-indexed) */
+  line: number;
 }
 
 /**
@@ -34,6 +92,34 @@ export interface ParsedNotebook {
   format: NotebookFormat;
   /** Whether the file had a Databricks header */
   hasDatabricksHeader: boolean;
+  /** Original text before the first cell (Databricks format only) */
+  preamble?: string;
+  /** Line endings, BOM and final newline of the file */
+  textStyle: TextStyle;
+  /** Widgets defined with `dbutils.widgets` */
+  widgets: WidgetDefinition[];
+  /** Problems found while parsing */
+  warnings: ParseWarning[];
+}
+
+/**
+ * Execution results persisted for a single code cell
+ */
+export interface StoredCellOutput {
+  /** Execution count shown next to the cell */
+  execution_count: number | null;
+  /** Jupyter output objects, stored exactly as the kernel produced them */
+  outputs: unknown[];
+}
+
+/**
+ * Cell outputs persisted outside the .py file, keyed by cell identity
+ */
+export interface CellOutputStore {
+  /** Store format version */
+  version: 1;
+  /** Outputs keyed by cell identity (see getCellKeys) */
+  cells: Record<string, StoredCellOutput>;
 }
 
 /**
@@ -48,10 +134,14 @@ export const MARKERS = {
   DATABRICKS_CELL_REGEX: /^# COMMAND -+$/,
   /** Percent format cell marker */
   PERCENT_CELL: '# %%',
-  /** Percent format cell regex (with optional metadata) */
-  PERCENT_CELL_REGEX: /^# %%\s*(?:\[(\w+)\])?(.*)$/,
+  /** Percent format cell regex (with optional title, [cell type] and metadata) */
+  PERCENT_CELL_REGEX: /^# %%(?:\s+(.*?))?\s*$/,
   /** Databricks MAGIC prefix */
   MAGIC_PREFIX: '# MAGIC ',
+  /** Databricks cell title prefix */
+  DBTITLE_PREFIX: '# DBTITLE',
+  /** Databricks cell title line (`# DBTITLE 1,My Cell Title`) */
+  DBTITLE_REGEX: /^# DBTITLE (\d+),(.*)$/,
 } as const;
 
 /**
@@ -78,10 +168,18 @@ export const MAGIC_PATTERNS = {
   CELL_MAGIC_PYTHON: /^%%python\s*$/m,
   /** Cell magic shell */
   CELL_MAGIC_SHELL: /^%%(bash|sh)\s*$/m,
+  /** Cell magic R (rpy2 uses %%R) */
+  CELL_MAGIC_R: /^%%[rR]\s*$/m,
+  /** Cell magic scala */
+  CELL_MAGIC_SCALA: /^%%scala\s*$/m,
   /** Single % magic at start of cell (user-typed, not in MAGIC format) */
   LINE_MAGIC_SQL: /^%sql\s*$/m,
   /** Single % magic for shell */
   LINE_MAGIC_SHELL: /^%(sh|bash)\s*$/m,
+  /** Single % magic for R */
+  LINE_MAGIC_R: /^%r\s*$/m,
+  /** Single % magic for scala */
+  LINE_MAGIC_SCALA: /^%scala\s*$/m,
   /** Single % magic for pip */
   LINE_MAGIC_PIP: /^%pip\b/,
   /** Single % magic for markdown */
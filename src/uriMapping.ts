@@ -0,0 +1,75 @@
+/**
+ * Mapping between real file URIs and virtual databricks-notebook:// URIs.
+ *
+ * The virtual URI keeps the real path (so tab titles and file extensions
+ * still work) and the authority, and records the real scheme and query in
+ * its own query string. This lets notebooks on remote (SSH, WSL, dev
+ * containers), virtual (vscode-vfs) and untitled documents map back to the
+ * right filesystem.
+ *
+ *   file:///home/me/nb.py                    ↔ databricks-notebook:///home/me/nb.py
+ *   vscode-remote://ssh-remote+host/x/nb.py  ↔ databricks-notebook://ssh-remote+host/x/nb.py?scheme=vscode-remote
+ */
+
+import { SCHEME } from './constants';
+
+/**
+ * URI components (structurally compatible with vscode.Uri)
+ */
+export interface UriComponents {
+  scheme: string;
+  authority: string;
+  path: string;
+  query: string;
+  fragment: string;
+}
+
+/** Query parameter holding the real URI's scheme */
+const SCHEME_PARAM = 'scheme';
+/** Query parameter holding the real URI's own query */
+const QUERY_PARAM = 'query';
+
+/**
+ * Build the virtual notebook URI components for a real URI
+ */
+export function toNotebookUriComponents(real: UriComponents): UriComponents {
+  const params = new URLSearchParams();
+
+  // file: is the default, which keeps plain local URIs readable
+  if (real.scheme !== 'file') {
+    params.set(SCHEME_PARAM, real.scheme);
+  }
+  if (real.query) {
+    params.set(QUERY_PARAM, real.query);
+  }
+
+  return {
+    scheme: SCHEME,
+    authority: real.authority,
+    path: real.path,
+    query: params.toString(),
+    fragment: '',
+  };
+}
+
+/**
+ * File name at the end of a URI's path
+ */
+export function baseName(uri: Pick<UriComponents, 'path'>): string {
+  return uri.path.slice(uri.path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Recover the real URI components from a virtual notebook URI
+ */
+export function toRealUriComponents(notebook: UriComponents): UriComponents {
+  const params = new URLSearchParams(notebook.query);
+
+  return {
+    scheme: params.get(SCHEME_PARAM) ?? 'file',
+    authority: notebook.authority,
+    path: notebook.path,
+    query: params.get(QUERY_PARAM) ?? '',
+    fragment: '',
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Databricks widget (`dbutils.widgets`) support for running notebooks locally.
+ *
+ * Widget definitions are read from the notebook's Python cells, and a
+ * parameters cell with a small stand-in for `dbutils.widgets` can be
+ * injected so `dbutils.widgets.get(...)` works in a local kernel.
+ */
+
+import { ParsedCell, WidgetDefinition, WidgetType } from './types';
+
+/** `dbutils.widgets.<type>(<arguments>)` on a single line */
+const WIDGET_CALL_REGEX = /\bdbutils\.widgets\.(text|dropdown|combobox|multiselect)\((.*)\)/;
+
+/** Positional parameter names of the widget definition functions */
+const WIDGET_PARAMETERS: Record<WidgetType, string[]> = {
+  text: ['name', 'defaultValue', 'label'],
+  dropdown: ['name', 'defaultValue', 'choices', 'label'],
+  combobox: ['name', 'defaultValue', 'choices', 'label'],
+  multiselect: ['name', 'defaultValue', 'choices', 'label'],
+};
+
+/**
+ * Find the widgets defined in a notebook's Python cells. Only definitions
+ * with literal arguments are recognized; the first definition of a name wins.
+ */
+export function findWidgets(cells: ParsedCell[]): WidgetDefinition[] {
+  const widgets: WidgetDefinition[] = [];
+
+  for (const cell of cells) {
+    if (cell.cellKind !== 'code' || cell.languageId !== 'python') {
+      continue;
+    }
+
+    for (const line of cell.source.split('\n')) {
+      const widget = parseWidgetCall(line);
+      if (widget && !widgets.some(existing => existing.name === widget.name)) {
+        widgets.push(widget);
+      }
+    }
+  }
+
+  return widgets;
+}
+
+/**
+ * Parse a single widget definition line
+ */
+function parseWidgetCall(line: string): WidgetDefinition | undefined {
+  const match = WIDGET_CALL_REGEX.exec(line);
+  if (!match || line.trimStart().startsWith('#')) {
+    return undefined;
+  }
+
+  const type = match[1] as WidgetType;
+  const values = new Map<string, string | string[]>();
+
+  splitArguments(match[2] ?? '').forEach((argument, index) => {
+    const keyword = /^(\w+)\s*=(?!=)\s*/.exec(argument);
+    const key = keyword ? keyword[1] : WIDGET_PARAMETERS[type][index];
+    const value = parseLiteral(keyword ? argument.slice(keyword[0].length) : argument);
+    if (key !== undefined && value !== undefined) {
+      values.set(key, value);
+    }
+  });
+
+  const name = values.get('name');
+  const defaultValue = values.get('defaultValue');
+  if (typeof name !== 'string' || typeof defaultValue !== 'string') {
+    return undefined;
+  }
+
+  const widget: WidgetDefinition = { name, type, defaultValue };
+  const label = values.get('label');
+  const choices = values.get('choices');
+  if (typeof label === 'string') {
+    widget.label = label;
+  }
+  if (Array.isArray(choices)) {
+    widget.choices = choices;
+  }
+  return widget;
+}
+
+/**
+ * Split call arguments at top-level commas
+ */
+function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? '';
+
+    if (quote) {
+      current += char;
+      if (char === '\\') {
+        current += text[++i] ?? '';
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim() !== '') {
+    args.push(current.trim());
+  }
+  return args;
+}
+
+/**
+ * Value of a Python string literal or list of string literals, or undefined
+ * for anything else (variables, expressions)
+ */
+function parseLiteral(text: string): string | string[] | undefined {
+  const value = text.trim();
+
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const items = splitArguments(value.slice(1, -1)).map(parseStringLiteral);
+    return items.every(item => item !== undefined) ? items : undefined;
+  }
+
+  return parseStringLiteral(value);
+}
+
+/**
+ * Value of a single- or double-quoted Python string literal
+ */
+function parseStringLiteral(text: string): string | undefined {
+  const match = /^(["'])(.*)\1$/s.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  return (match[2] ?? '').replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Python source of the injected parameters cell: the widget values, which
+ * can be edited for local runs, and a stand-in for `dbutils.widgets` that
+ * is only installed when no real `dbutils` exists
+ */
+export function buildWidgetShim(widgets: WidgetDefinition[]): string {
+  const values = widgets.map(widget => {
+    const comment = widget.choices ? `  # ${widget.type}: ${widget.choices.join(', ')}` : '';
+    return `    ${JSON.stringify(widget.name)}: ${JSON.stringify(widget.defaultValue)},${comment}`;
+  });
+
+  return [
+    '# Widget values for local runs (this cell is not saved to the .py file)',
+    'widget_values = {',
+    ...values,
+    '}',
+    '',
+    'try:',
+    '    dbutils',
+    'except NameError:',
+    '    class _LocalWidgets:',
+    '        def __init__(self, values):',
+    '            self._values = dict(values)',
+    '',
+    '        def _define(self, name, defaultValue="", *args, **kwargs):',
+    '            self._values.setdefault(name, defaultValue)',
+    '',
+    '        text = dropdown = combobox = multiselect = _define',
+    '',
+    '        def get(self, name):',
+    '            return self._values[name]',
+    '',
+    '        getArgument = get',
+    '',
+    '        def getAll(self):',
+    '            return dict(self._values)',
+    '',
+    '        def remove(self, name):',
+    '            self._values.pop(name, None)',
+    '',
+    '        def removeAll(self):',
+    '            self._values.clear()',
+    '',
+    '    class _LocalDbutils:',
+    '        def __init__(self, values):',
+    '            self.widgets = _LocalWidgets(values)',
+    '',
+    '    dbutils = _LocalDbutils(widget_values)',
+  ].join('\n');
+}